@@ -0,0 +1,79 @@
+/**
+ * Archive Store
+ *
+ * Board archives made by trello_export_board, kept so the export can be read
+ * in chunks that fit the response size limit and imported by its ID. Archives
+ * are kept in the ARCHIVE_IMPORTS KV namespace when it is bound, otherwise in
+ * memory scoped to the Worker isolate.
+ */
+
+import type { Env } from '../types/env.js';
+
+/** How long exported archives are kept */
+export const ARCHIVE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+/** Most archives kept per isolate by the in-memory store */
+const MEMORY_ARCHIVE_LIMIT = 20;
+
+export interface StoredArchive {
+  id: string;
+  tenant: string;
+  boardId: string;
+  /** The archive as compact JSON text */
+  text: string;
+  createdAt: string;
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface ArchiveStore {
+  get(tenant: string, id: string): Promise<StoredArchive | null>;
+  put(archive: StoredArchive): Promise<void>;
+}
+
+/**
+ * In-memory archive store, keeping the most recent archives
+ */
+export class MemoryArchiveStore implements ArchiveStore {
+  private archives = new Map<string, StoredArchive>();
+
+  async get(tenant: string, id: string): Promise<StoredArchive | null> {
+    return this.archives.get(`${tenant}:${id}`) ?? null;
+  }
+
+  async put(archive: StoredArchive): Promise<void> {
+    this.archives.set(`${archive.tenant}:${archive.id}`, archive);
+    for (const key of this.archives.keys()) {
+      if (this.archives.size <= MEMORY_ARCHIVE_LIMIT) break;
+      this.archives.delete(key);
+    }
+  }
+}
+
+/**
+ * Archive store backed by a KV namespace, keyed archives:<tenant>:<id>
+ */
+export class KvArchiveStore implements ArchiveStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(tenant: string, id: string): Promise<StoredArchive | null> {
+    return this.kv.get<StoredArchive>(`archives:${tenant}:${id}`, 'json');
+  }
+
+  async put(archive: StoredArchive): Promise<void> {
+    await this.kv.put(`archives:${archive.tenant}:${archive.id}`, JSON.stringify(archive), {
+      expirationTtl: ARCHIVE_RETENTION_SECONDS,
+    });
+  }
+}
+
+const sharedMemoryStore = new MemoryArchiveStore();
+
+/**
+ * Pick the archive store for the current environment
+ */
+export function createArchiveStore(env: Env): ArchiveStore {
+  return env.ARCHIVE_IMPORTS ? new KvArchiveStore(env.ARCHIVE_IMPORTS) : sharedMemoryStore;
+}
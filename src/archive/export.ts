@@ -0,0 +1,214 @@
+/**
+ * Board Export
+ *
+ * Walks a board and builds a BoardArchive document from its lists, cards
+ * (including archived ones), labels, checklists, custom fields, comments and
+ * attachment metadata.
+ */
+
+import type { TrelloClient } from '../client.js';
+import {
+  type ArchiveCard,
+  type ArchiveChecklist,
+  type ArchiveComment,
+  BOARD_ARCHIVE_FORMAT,
+  BOARD_ARCHIVE_VERSION,
+  type BoardArchive,
+} from '../types/archive.js';
+import type { TrelloAction, TrelloCard, TrelloChecklist } from '../types/entities.js';
+
+/** Comments fetched per board actions request (Trello's maximum) */
+const COMMENT_PAGE_SIZE = 1000;
+
+export interface ExportOptions {
+  /** Include card comments (one extra request per 1000 comments) */
+  includeComments: boolean;
+}
+
+/**
+ * Fetch every comment on a board, newest first
+ */
+async function getAllBoardComments(client: TrelloClient, boardId: string): Promise<TrelloAction[]> {
+  const comments: TrelloAction[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await client.getBoardActions(boardId, {
+      filter: ['commentCard'],
+      limit: COMMENT_PAGE_SIZE,
+      before,
+    });
+    comments.push(...page);
+    if (page.length < COMMENT_PAGE_SIZE) return comments;
+    before = page[page.length - 1].id;
+  }
+}
+
+/**
+ * Group items by card ID
+ */
+function groupByCard<T>(items: T[], cardId: (item: T) => string | undefined): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const id = cardId(item);
+    if (!id) continue;
+    groups.set(id, [...(groups.get(id) ?? []), item]);
+  }
+  return groups;
+}
+
+function toArchiveChecklist(checklist: TrelloChecklist): ArchiveChecklist {
+  return {
+    id: checklist.id,
+    name: checklist.name,
+    pos: checklist.pos,
+    checkItems: [...checklist.checkItems]
+      .sort((a, b) => a.pos - b.pos)
+      .map((item) => ({
+        id: item.id,
+        name: item.name,
+        state: item.state,
+        pos: item.pos,
+        due: item.due ?? null,
+        idMember: item.idMember ?? null,
+      })),
+  };
+}
+
+function toArchiveComment(action: TrelloAction): ArchiveComment {
+  return {
+    id: action.id,
+    date: action.date,
+    text: action.data.text ?? '',
+    idMemberCreator: action.idMemberCreator,
+    author: action.memberCreator
+      ? { username: action.memberCreator.username, fullName: action.memberCreator.fullName }
+      : null,
+  };
+}
+
+function toArchiveCard(
+  card: TrelloCard,
+  checklists: TrelloChecklist[],
+  comments: TrelloAction[]
+): ArchiveCard {
+  return {
+    id: card.id,
+    idList: card.idList,
+    name: card.name,
+    desc: card.desc,
+    closed: card.closed,
+    pos: card.pos,
+    due: card.due,
+    start: card.start,
+    dueComplete: card.dueComplete,
+    idLabels: card.idLabels,
+    idMembers: card.idMembers,
+    url: card.url,
+    customFieldItems: (card.customFieldItems ?? []).map((item) => ({
+      idCustomField: item.idCustomField,
+      idValue: item.idValue ?? null,
+      value: (item.value as Record<string, string> | undefined) ?? null,
+    })),
+    checklists: [...checklists].sort((a, b) => a.pos - b.pos).map(toArchiveChecklist),
+    comments: [...comments].sort((a, b) => a.date.localeCompare(b.date)).map(toArchiveComment),
+    attachments: (card.attachments ?? []).map((attachment) => ({
+      id: attachment.id,
+      name: attachment.name,
+      url: attachment.url,
+      mimeType: attachment.mimeType,
+      bytes: attachment.bytes,
+      isUpload: attachment.isUpload,
+      date: attachment.date,
+    })),
+  };
+}
+
+/**
+ * Export a board as a BoardArchive document
+ */
+export async function exportBoard(
+  client: TrelloClient,
+  boardId: string,
+  options: ExportOptions
+): Promise<BoardArchive> {
+  const [board, members, labels, customFields, lists, cards, checklists, comments] =
+    await Promise.all([
+      client.getBoard(boardId),
+      client.getBoardMembers(boardId),
+      client.getBoardLabels(boardId),
+      client.getBoardCustomFields(boardId),
+      client.getBoardLists(boardId, 'all'),
+      client.getBoardCards(boardId, 'all', { customFieldItems: true, attachments: true }),
+      client.getBoardChecklists(boardId),
+      options.includeComments ? getAllBoardComments(client, boardId) : Promise.resolve([]),
+    ]);
+
+  const checklistsByCard = groupByCard(checklists, (checklist) => checklist.idCard);
+  const commentsByCard = groupByCard(comments, (action) => action.data.card?.id);
+
+  // Cards follow the list order, then their position within the list
+  const sortedLists = [...lists].sort((a, b) => a.pos - b.pos);
+  const listOrder = new Map(sortedLists.map((list, index) => [list.id, index]));
+  const sortedCards = [...cards].sort(
+    (a, b) =>
+      (listOrder.get(a.idList) ?? Number.MAX_SAFE_INTEGER) -
+        (listOrder.get(b.idList) ?? Number.MAX_SAFE_INTEGER) || a.pos - b.pos
+  );
+
+  const { prefs } = board;
+  return {
+    format: BOARD_ARCHIVE_FORMAT,
+    version: BOARD_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: {
+      id: board.id,
+      name: board.name,
+      desc: board.desc,
+      closed: board.closed,
+      url: board.url,
+      idOrganization: board.idOrganization,
+      prefs: {
+        permissionLevel: prefs.permissionLevel,
+        voting: prefs.voting,
+        comments: prefs.comments,
+        invitations: prefs.invitations,
+        selfJoin: prefs.selfJoin,
+        cardCovers: prefs.cardCovers,
+        hideVotes: prefs.hideVotes,
+        cardAging: prefs.cardAging,
+        background: prefs.background,
+        calendarFeedEnabled: prefs.calendarFeedEnabled,
+      },
+    },
+    members: members.map((member) => ({
+      id: member.id,
+      username: member.username,
+      fullName: member.fullName,
+    })),
+    labels: labels.map((label) => ({ id: label.id, name: label.name, color: label.color })),
+    customFields: [...customFields]
+      .sort((a, b) => a.pos - b.pos)
+      .map((field) => ({
+        id: field.id,
+        name: field.name,
+        type: field.type,
+        pos: field.pos,
+        cardFront: field.display?.cardFront ?? false,
+        options: (field.options ?? []).map((option) => ({
+          id: option.id,
+          text: option.value.text,
+          color: option.color,
+          pos: option.pos,
+        })),
+      })),
+    lists: sortedLists.map((list) => ({
+      id: list.id,
+      name: list.name,
+      closed: list.closed,
+      pos: list.pos,
+    })),
+    cards: sortedCards.map((card) =>
+      toArchiveCard(card, checklistsByCard.get(card.id) ?? [], commentsByCard.get(card.id) ?? [])
+    ),
+  };
+}
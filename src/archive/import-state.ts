@@ -0,0 +1,88 @@
+/**
+ * Import State
+ *
+ * Progress of board imports, so an import that stops midway (on an error or
+ * when its per-call operation budget is used up) can resume without creating
+ * anything twice. State is kept in the ARCHIVE_IMPORTS KV namespace when it
+ * is bound, otherwise in memory scoped to the Worker isolate.
+ */
+
+import type { Env } from '../types/env.js';
+
+/** How long import state is kept */
+export const IMPORT_STATE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export interface UnrestoredItem {
+  type: 'member' | 'attachment';
+  /** ID in the archive */
+  id: string;
+  name: string;
+  reason: string;
+}
+
+export interface ImportState {
+  id: string;
+  tenant: string;
+  /** Board ID and export time of the archive, to detect a different archive on resume */
+  source: { boardId: string; exportedAt: string };
+  status: 'in_progress' | 'complete';
+  /**
+   * Completed steps. Keys name a step (e.g. card:<archive ID>); values are
+   * the ID of the entity it created, or 'done'.
+   */
+  steps: Record<string, string>;
+  unrestored: UnrestoredItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface ImportStateStore {
+  get(tenant: string, id: string): Promise<ImportState | null>;
+  put(state: ImportState): Promise<void>;
+}
+
+/**
+ * In-memory import state store
+ */
+export class MemoryImportStateStore implements ImportStateStore {
+  private states = new Map<string, ImportState>();
+
+  async get(tenant: string, id: string): Promise<ImportState | null> {
+    const state = this.states.get(`${tenant}:${id}`);
+    return state ? structuredClone(state) : null;
+  }
+
+  async put(state: ImportState): Promise<void> {
+    this.states.set(`${state.tenant}:${state.id}`, structuredClone(state));
+  }
+}
+
+/**
+ * Import state store backed by a KV namespace, keyed imports:<tenant>:<id>
+ */
+export class KvImportStateStore implements ImportStateStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(tenant: string, id: string): Promise<ImportState | null> {
+    return this.kv.get<ImportState>(`imports:${tenant}:${id}`, 'json');
+  }
+
+  async put(state: ImportState): Promise<void> {
+    await this.kv.put(`imports:${state.tenant}:${state.id}`, JSON.stringify(state), {
+      expirationTtl: IMPORT_STATE_RETENTION_SECONDS,
+    });
+  }
+}
+
+const sharedMemoryStore = new MemoryImportStateStore();
+
+/**
+ * Pick the import state store for the current environment
+ */
+export function createImportStateStore(env: Env): ImportStateStore {
+  return env.ARCHIVE_IMPORTS ? new KvImportStateStore(env.ARCHIVE_IMPORTS) : sharedMemoryStore;
+}
@@ -0,0 +1,422 @@
+/**
+ * Board Import
+ *
+ * Recreates a board from a BoardArchive. Every write is a named step recorded
+ * in the import state with the ID it created, so archive IDs can be mapped to
+ * new ones and a resumed import skips the steps that already ran.
+ */
+
+import type { TrelloClient } from '../client.js';
+import {
+  type ArchiveCard,
+  type ArchiveComment,
+  BOARD_ARCHIVE_FORMAT,
+  BOARD_ARCHIVE_VERSION,
+  type BoardArchive,
+} from '../types/archive.js';
+import { ValidationError } from '../utils/errors.js';
+import type { ImportState, UnrestoredItem } from './import-state.js';
+
+/** Step result for steps that do not create an entity */
+const DONE = 'done';
+
+/** Completed steps between saves of the import state */
+const SAVE_INTERVAL_STEPS = 10;
+
+/** Board backgrounds every account has; others are uploaded images */
+const STANDARD_BACKGROUNDS = /^(blue|orange|green|red|purple|pink|lime|sky|grey)$/;
+
+export interface ImportOptions {
+  /** Name of the new board (default: the archived board's name) */
+  name?: string;
+  /** Workspace to create the board in */
+  idOrganization?: string;
+  /** Most API requests to make before pausing the import */
+  maxOperations: number;
+  /** Persist the import state; called every few completed steps */
+  save: (state: ImportState) => Promise<void>;
+}
+
+/** Thrown when an import call has used up its operation budget */
+class BudgetExhausted extends Error {}
+
+/**
+ * Parse and check an archive document, given as JSON text or an object
+ */
+export function parseBoardArchive(input: unknown): BoardArchive {
+  let document = input;
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input);
+    } catch {
+      throw new ValidationError('Archive is not valid JSON');
+    }
+  }
+
+  const archive = document as Partial<BoardArchive> | null;
+  if (!archive || typeof archive !== 'object' || archive.format !== BOARD_ARCHIVE_FORMAT) {
+    throw new ValidationError('Not a board archive', {
+      archive: [`Expected the output of trello_export_board (format "${BOARD_ARCHIVE_FORMAT}")`],
+    });
+  }
+  if (archive.version !== BOARD_ARCHIVE_VERSION) {
+    throw new ValidationError(`Unsupported archive version ${archive.version}`, {
+      archive: [`This server reads version ${BOARD_ARCHIVE_VERSION}`],
+    });
+  }
+  const sections = ['members', 'labels', 'customFields', 'lists', 'cards'] as const;
+  const missing = sections.filter((section) => !Array.isArray(archive[section]));
+  if (!archive.board?.id || missing.length > 0) {
+    throw new ValidationError('Archive is incomplete', {
+      archive: [`Missing: ${[...(archive.board?.id ? [] : ['board']), ...missing].join(', ')}`],
+    });
+  }
+  return archive as BoardArchive;
+}
+
+/**
+ * Step runner for one import call
+ */
+class ImportRun {
+  private operations = 0;
+  private unsaved = 0;
+
+  constructor(
+    private state: ImportState,
+    private maxOperations: number,
+    private save: (state: ImportState) => Promise<void>
+  ) {}
+
+  /** ID created by a completed step */
+  id(key: string): string | undefined {
+    const value = this.state.steps[key];
+    return value === DONE ? undefined : value;
+  }
+
+  /** Count a read request against the budget */
+  async read<T>(request: () => Promise<T>): Promise<T> {
+    this.operations++;
+    return request();
+  }
+
+  /**
+   * Run a step unless it already completed; returns the ID it created
+   */
+  async step(key: string, run: () => Promise<string | undefined>): Promise<string | undefined> {
+    if (key in this.state.steps) {
+      return this.id(key);
+    }
+    if (this.operations >= this.maxOperations) {
+      throw new BudgetExhausted();
+    }
+    this.operations++;
+    const id = await run();
+    this.state.steps[key] = id ?? DONE;
+    if (++this.unsaved >= SAVE_INTERVAL_STEPS) {
+      this.unsaved = 0;
+      await this.save(this.state);
+    }
+    return id;
+  }
+
+  unrestored(item: UnrestoredItem): void {
+    const known = this.state.unrestored.some(
+      (existing) => existing.type === item.type && existing.id === item.id
+    );
+    if (!known) this.state.unrestored.push(item);
+  }
+}
+
+/**
+ * Comment text that credits the original author and date
+ */
+function attributedComment(comment: ArchiveComment): string {
+  const author = comment.author
+    ? `${comment.author.fullName} (@${comment.author.username})`
+    : `Member ${comment.idMemberCreator}`;
+  return `${author} commented on ${comment.date}:\n\n${comment.text}`;
+}
+
+/**
+ * Map archived members to members of the target workspace by ID or username,
+ * adding them to the new board. The token owner is always mapped.
+ */
+async function importMembers(
+  client: TrelloClient,
+  archive: BoardArchive,
+  run: ImportRun,
+  boardId: string,
+  idOrganization: string | undefined
+): Promise<Map<string, string>> {
+  const [me, workspaceMembers] = await Promise.all([
+    run.read(() => client.getMe()),
+    idOrganization ? run.read(() => client.getOrganizationMembers(idOrganization)) : [],
+  ]);
+  const candidates = [me, ...workspaceMembers];
+
+  const members = new Map<string, string>();
+  for (const member of archive.members) {
+    const match = candidates.find(
+      (candidate) => candidate.id === member.id || candidate.username === member.username
+    );
+    if (!match) {
+      run.unrestored({
+        type: 'member',
+        id: member.id,
+        name: member.username,
+        reason: idOrganization
+          ? 'Not a member of the target workspace; card assignments were dropped'
+          : 'No target workspace given; card assignments were dropped',
+      });
+      continue;
+    }
+    if (match.id !== me.id) {
+      await run.step(`member:${member.id}`, async () => {
+        await client.addMemberToBoard(boardId, match.id, 'normal');
+        return match.id;
+      });
+    }
+    members.set(member.id, match.id);
+  }
+  return members;
+}
+
+/**
+ * Create a card and everything on it
+ */
+async function importCard(
+  client: TrelloClient,
+  card: ArchiveCard,
+  run: ImportRun,
+  members: Map<string, string>
+): Promise<void> {
+  const idList = run.id(`list:${card.idList}`);
+  if (!idList) {
+    throw new ValidationError(
+      `Card ${card.id} is on list ${card.idList}, which is not in the archive`
+    );
+  }
+  const mapped = (ids: string[], lookup: (id: string) => string | undefined) =>
+    ids.map(lookup).filter((id): id is string => Boolean(id));
+
+  const cardId = await run.step(`card:${card.id}`, async () => {
+    const created = await client.createCard({
+      idList,
+      name: card.name,
+      desc: card.desc,
+      pos: 'bottom',
+      due: card.due ?? undefined,
+      start: card.start ?? undefined,
+      dueComplete: card.dueComplete,
+      idLabels: mapped(card.idLabels, (id) => run.id(`label:${id}`)),
+      idMembers: mapped(card.idMembers, (id) => members.get(id)),
+    });
+    return created.id;
+  });
+  if (!cardId) return;
+
+  for (const item of card.customFieldItems) {
+    const fieldId = run.id(`customField:${item.idCustomField}`);
+    const optionId = item.idValue ? run.id(`option:${item.idValue}`) : undefined;
+    if (!fieldId || (!optionId && !item.value)) continue;
+    await run.step(`fieldValue:${card.id}:${item.idCustomField}`, async () => {
+      await client.setCardCustomFieldValue(
+        cardId,
+        fieldId,
+        optionId ? { idValue: optionId } : { value: item.value }
+      );
+      return undefined;
+    });
+  }
+
+  for (const checklist of card.checklists) {
+    const checklistId = await run.step(`checklist:${checklist.id}`, async () => {
+      const created = await client.createChecklist({ idCard: cardId, name: checklist.name });
+      return created.id;
+    });
+    if (!checklistId) continue;
+    for (const item of checklist.checkItems) {
+      await run.step(`checkItem:${item.id}`, async () => {
+        const created = await client.createCheckItem(checklistId, {
+          name: item.name,
+          pos: 'bottom',
+          checked: item.state === 'complete',
+          due: item.due ?? undefined,
+          idMember: item.idMember ? members.get(item.idMember) : undefined,
+        });
+        return created.id;
+      });
+    }
+  }
+
+  for (const comment of card.comments) {
+    await run.step(`comment:${comment.id}`, async () => {
+      const created = await client.addCommentToCard(cardId, attributedComment(comment));
+      return created.id;
+    });
+  }
+
+  for (const attachment of card.attachments) {
+    if (attachment.isUpload) {
+      run.unrestored({
+        type: 'attachment',
+        id: attachment.id,
+        name: attachment.name,
+        reason: `Uploaded file on card "${card.name}" is not included in the archive`,
+      });
+      continue;
+    }
+    await run.step(`attachment:${attachment.id}`, async () => {
+      const created = await client.addAttachmentToCard(cardId, {
+        url: attachment.url,
+        name: attachment.name,
+      });
+      return created.id;
+    });
+  }
+
+  if (card.closed) {
+    await run.step(`archiveCard:${card.id}`, async () => {
+      await client.updateCard(cardId, { closed: true });
+      return undefined;
+    });
+  }
+}
+
+/**
+ * Run the import until it completes or the operation budget is used up.
+ *
+ * Updates `state` in place and saves it every few steps; the caller saves it
+ * once more when the call ends. Errors other than the budget running out are
+ * rethrown after the completed steps are recorded.
+ */
+export async function importBoard(
+  client: TrelloClient,
+  archive: BoardArchive,
+  state: ImportState,
+  options: ImportOptions
+): Promise<ImportState['status']> {
+  const run = new ImportRun(state, options.maxOperations, options.save);
+  const { board } = archive;
+
+  try {
+    const boardId = await run.step('board', async () => {
+      const created = await client.createBoard({
+        name: options.name ?? board.name,
+        desc: board.desc,
+        idOrganization: options.idOrganization,
+        prefs_permissionLevel:
+          options.idOrganization && board.prefs.permissionLevel !== 'private' ? 'org' : 'private',
+        prefs_selfJoin: board.prefs.selfJoin,
+        prefs_cardCovers: board.prefs.cardCovers,
+        prefs_cardAging: board.prefs.cardAging,
+        prefs_background: STANDARD_BACKGROUNDS.test(board.prefs.background)
+          ? board.prefs.background
+          : undefined,
+        defaultLabels: false,
+        defaultLists: false,
+      });
+      return created.id;
+    });
+    if (!boardId) {
+      throw new Error('Board step completed without a board ID');
+    }
+
+    const members = await importMembers(client, archive, run, boardId, options.idOrganization);
+
+    for (const label of archive.labels) {
+      await run.step(`label:${label.id}`, async () => {
+        const created = await client.createLabel({
+          idBoard: boardId,
+          name: label.name,
+          color: label.color,
+        });
+        return created.id;
+      });
+    }
+
+    for (const field of archive.customFields) {
+      const fieldId = await run.step(`customField:${field.id}`, async () => {
+        const created = await client.createCustomField({
+          idModel: boardId,
+          modelType: 'board',
+          name: field.name,
+          type: field.type,
+          pos: 'bottom',
+          display_cardFront: field.cardFront,
+        });
+        return created.id;
+      });
+      if (!fieldId) continue;
+      for (const option of field.options) {
+        await run.step(`option:${option.id}`, async () => {
+          const created = await client.addCustomFieldOption(
+            fieldId,
+            option.text,
+            option.color ?? undefined
+          );
+          return created.id;
+        });
+      }
+    }
+
+    // Lists are created open so their cards can be added, then archived last
+    for (const list of archive.lists) {
+      await run.step(`list:${list.id}`, async () => {
+        const created = await client.createList({
+          name: list.name,
+          idBoard: boardId,
+          pos: 'bottom',
+        });
+        return created.id;
+      });
+    }
+
+    for (const card of archive.cards) {
+      await importCard(client, card, run, members);
+    }
+
+    for (const list of archive.lists.filter((candidate) => candidate.closed)) {
+      const listId = run.id(`list:${list.id}`);
+      if (!listId) continue;
+      await run.step(`archiveList:${list.id}`, async () => {
+        await client.updateList(listId, { closed: true });
+        return undefined;
+      });
+    }
+  } catch (error) {
+    if (error instanceof BudgetExhausted) {
+      return 'in_progress';
+    }
+    throw error;
+  }
+
+  state.status = 'complete';
+  return state.status;
+}
+
+/**
+ * Counts of restored entities by type, as "created/total"
+ */
+export function importProgress(archive: BoardArchive, state: ImportState): Record<string, string> {
+  const created = (prefix: string) =>
+    Object.keys(state.steps).filter((key) => key.startsWith(prefix)).length;
+  const cards = archive.cards;
+  const checklists = cards.flatMap((card) => card.checklists);
+  const totals: Record<string, [string, number]> = {
+    labels: ['label:', archive.labels.length],
+    customFields: ['customField:', archive.customFields.length],
+    lists: ['list:', archive.lists.length],
+    cards: ['card:', cards.length],
+    checklists: ['checklist:', checklists.length],
+    checkItems: ['checkItem:', checklists.flatMap((checklist) => checklist.checkItems).length],
+    comments: ['comment:', cards.flatMap((card) => card.comments).length],
+    attachments: [
+      'attachment:',
+      cards.flatMap((card) => card.attachments).filter((attachment) => !attachment.isUpload).length,
+    ],
+  };
+  return Object.fromEntries(
+    Object.entries(totals).map(([type, [prefix, total]]) => [type, `${created(prefix)}/${total}`])
+  );
+}
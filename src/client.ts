@@ -10,8 +10,10 @@
 
 import type {
   TrelloAction,
+  TrelloActionQuery,
   TrelloAttachment,
   TrelloAttachmentCreateInput,
+  TrelloBatchResult,
   TrelloBoard,
   TrelloBoardCreateInput,
   TrelloBoardUpdateInput,
@@ -36,6 +38,8 @@ import type {
   TrelloListCreateInput,
   TrelloListUpdateInput,
   TrelloMember,
+  TrelloModelRef,
+  TrelloModelType,
   TrelloOrganization,
   TrelloOrganizationCreateInput,
   TrelloOrganizationUpdateInput,
@@ -44,8 +48,19 @@ import type {
   TrelloWebhookCreateInput,
   TrelloWebhookUpdateInput,
 } from './types/entities.js';
+import type { RateLimiter } from './rate-limiter.js';
 import type { TenantCredentials } from './types/env.js';
-import { AuthenticationError, ApiError, RateLimitError } from './utils/errors.js';
+import { decodeBase64 } from './utils/encoding.js';
+import { AuthenticationError, ApiError, RateLimitError, ValidationError } from './utils/errors.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  isSafeToRetry,
+  parseRetryAfter,
+  RetryBudget,
+  type RetryOptions,
+  type RetryPolicy,
+  withRetry,
+} from './utils/retry.js';
 
 // =============================================================================
 // Configuration
@@ -53,6 +68,140 @@ import { AuthenticationError, ApiError, RateLimitError } from './utils/errors.js
 
 const API_BASE_URL = 'https://api.trello.com/1';
 
+/** Upload size limits for free and paid (Standard and above) workspaces */
+export const ATTACHMENT_SIZE_LIMITS = {
+  free: 10 * 1024 * 1024,
+  paid: 250 * 1024 * 1024,
+};
+
+/** Trello's rate limit window; used when a 429 carries no Retry-After header */
+const DEFAULT_RETRY_AFTER_SECONDS = 10;
+
+/** Trello's limit on the number of requests in one /batch call */
+export const BATCH_LIMIT = 10;
+
+/** Endpoints tried, in order, when resolving a model by ID */
+const MODEL_ENDPOINTS: [TrelloModelType, string][] = [
+  ['board', 'boards'],
+  ['card', 'cards'],
+  ['list', 'lists'],
+  ['organization', 'organizations'],
+  ['member', 'members'],
+];
+
+export interface TrelloClientOptions {
+  /**
+   * Overrides for the retry pipeline applied to every request. The total
+   * wait (maxTotalDelayMs) is shared by all requests of the client.
+   */
+  retry?: Partial<RetryOptions>;
+
+  /** Shared limiter that queues requests to stay within Trello's budgets */
+  rateLimiter?: RateLimiter;
+
+  /**
+   * Send GET requests issued together (e.g. through Promise.all) as /batch
+   * calls of up to BATCH_LIMIT requests (default: true)
+   */
+  coalesceGets?: boolean;
+}
+
+/** A GET request waiting to be sent as part of a /batch call */
+interface PendingGet {
+  /** Route relative to the API base, with its query string */
+  route: string;
+  endpoint: string;
+  params?: Record<string, string>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Read a response body, failing once it grows past `maxBytes`
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<ArrayBuffer> {
+  const tooLarge = () =>
+    new ValidationError(`Attachment is larger than ${maxBytes} bytes`, {
+      attachmentId: ['Files this large are not downloaded'],
+    });
+
+  const declared = Number(response.headers.get('Content-Length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return new ArrayBuffer(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+/**
+ * Read one entry of a /batch response
+ */
+/**
+ * Whether a route contains a comma, raw or percent-encoded. /batch separates
+ * its routes with commas, so such a route would be split.
+ */
+function containsComma(route: string): boolean {
+  let decoded = route;
+  try {
+    decoded = decodeURIComponent(route);
+  } catch {
+    // Malformed escapes are checked as written
+  }
+  return route.includes(',') || decoded.includes(',');
+}
+
+function parseBatchEntry<T>(
+  entry: Record<string, unknown> | undefined,
+  path: string
+): TrelloBatchResult<T> {
+  // Successful entries are keyed by status code: { "200": {...} }
+  if (entry && '200' in entry) {
+    return { path, ok: true, status: 200, data: entry['200'] as T };
+  }
+  const status = Number(entry?.statusCode ?? Object.keys(entry ?? {})[0]) || 500;
+  const message = entry?.message ?? Object.values(entry ?? {})[0];
+  return {
+    path,
+    ok: false,
+    status,
+    error: typeof message === 'string' ? message : JSON.stringify(message),
+  };
+}
+
+/**
+ * The error a failed /batch entry would have raised as a request of its own
+ */
+function batchEntryError(result: TrelloBatchResult): ApiError {
+  if (result.status === 401) {
+    return new AuthenticationError('Invalid API key or token');
+  }
+  return new ApiError(`Trello API error: ${result.error}`, result.status);
+}
+
 // =============================================================================
 // Trello Client Interface
 // =============================================================================
@@ -76,9 +225,13 @@ export interface TrelloClient {
   deleteBoard(boardId: string): Promise<void>;
   getBoardMembers(boardId: string): Promise<TrelloMember[]>;
   getBoardLists(boardId: string, filter?: 'all' | 'open' | 'closed'): Promise<TrelloList[]>;
-  getBoardCards(boardId: string, filter?: 'all' | 'open' | 'closed'): Promise<TrelloCard[]>;
+  getBoardCards(
+    boardId: string,
+    filter?: 'all' | 'open' | 'closed',
+    options?: { customFieldItems?: boolean; attachments?: boolean }
+  ): Promise<TrelloCard[]>;
   getBoardLabels(boardId: string): Promise<TrelloLabel[]>;
-  getBoardActions(boardId: string, limit?: number): Promise<TrelloAction[]>;
+  getBoardActions(boardId: string, query?: TrelloActionQuery): Promise<TrelloAction[]>;
   getBoardChecklists(boardId: string): Promise<TrelloChecklist[]>;
   getBoardCustomFields(boardId: string): Promise<TrelloCustomField[]>;
   addMemberToBoard(boardId: string, memberId: string, type?: 'admin' | 'normal' | 'observer'): Promise<TrelloMember>;
@@ -102,8 +255,10 @@ export interface TrelloClient {
   archiveCard(cardId: string): Promise<TrelloCard>;
   unarchiveCard(cardId: string): Promise<TrelloCard>;
   moveCard(cardId: string, idList: string, idBoard?: string): Promise<TrelloCard>;
-  getCardActions(cardId: string, limit?: number): Promise<TrelloAction[]>;
+  getCardActions(cardId: string, query?: TrelloActionQuery): Promise<TrelloAction[]>;
   getCardAttachments(cardId: string): Promise<TrelloAttachment[]>;
+  getAttachment(cardId: string, attachmentId: string): Promise<TrelloAttachment>;
+  downloadAttachment(attachment: TrelloAttachment, maxBytes?: number): Promise<ArrayBuffer>;
   addAttachmentToCard(cardId: string, input: TrelloAttachmentCreateInput): Promise<TrelloAttachment>;
   deleteAttachment(cardId: string, attachmentId: string): Promise<void>;
   getCardChecklists(cardId: string): Promise<TrelloChecklist[]>;
@@ -154,6 +309,9 @@ export interface TrelloClient {
   // Actions
   getAction(actionId: string): Promise<TrelloAction>;
 
+  // Batch
+  batchGet<T = unknown>(paths: string[]): Promise<TrelloBatchResult<T>[]>;
+
   // Search
   search(query: string, options?: {
     idBoards?: string[];
@@ -171,6 +329,9 @@ export interface TrelloClient {
   createWebhook(input: TrelloWebhookCreateInput): Promise<TrelloWebhook>;
   updateWebhook(webhookId: string, input: TrelloWebhookUpdateInput): Promise<TrelloWebhook>;
   deleteWebhook(webhookId: string): Promise<void>;
+
+  // Models
+  findModel(modelId: string): Promise<TrelloModelRef | 'inaccessible' | null>;
 }
 
 // =============================================================================
@@ -179,9 +340,18 @@ export interface TrelloClient {
 
 class TrelloClientImpl implements TrelloClient {
   private credentials: TenantCredentials;
+  private retryOptions: RetryOptions;
+  private retryBudget: RetryBudget;
+  private rateLimiter?: RateLimiter;
+  private coalesceGets: boolean;
+  private pendingGets: PendingGet[] = [];
 
-  constructor(credentials: TenantCredentials) {
+  constructor(credentials: TenantCredentials, options: TrelloClientOptions = {}) {
     this.credentials = credentials;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.retryBudget = new RetryBudget(this.retryOptions.maxTotalDelayMs);
+    this.rateLimiter = options.rateLimiter;
+    this.coalesceGets = options.coalesceGets ?? true;
   }
 
   // ===========================================================================
@@ -195,10 +365,119 @@ class TrelloClientImpl implements TrelloClient {
     });
   }
 
+  /**
+   * Retry rules for one HTTP request: creates are only retried when rate
+   * limited, and all requests draw on the client's shared wait budget
+   */
+  private retryPolicy(method = 'GET'): RetryPolicy {
+    return {
+      canRetry: (error) => isSafeToRetry(error, method),
+      budget: this.retryBudget,
+    };
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {},
     extraParams?: Record<string, string>
+  ): Promise<T> {
+    const route = this.batchRoute(endpoint, options, extraParams);
+    if (route) {
+      return new Promise<T>((resolve, reject) => {
+        if (this.pendingGets.length === 0) {
+          // Collect the other GETs issued in this turn before sending
+          setTimeout(() => this.flushPendingGets(), 0);
+        }
+        this.pendingGets.push({
+          route,
+          endpoint,
+          params: extraParams,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        });
+      });
+    }
+    return this.requestDirect<T>(endpoint, options, extraParams);
+  }
+
+  /**
+   * Route of a request that may be coalesced into a /batch call, if any.
+   * /batch separates routes with commas, so routes containing one are sent
+   * on their own.
+   */
+  private batchRoute(
+    endpoint: string,
+    options: RequestInit,
+    extraParams?: Record<string, string>
+  ): string | undefined {
+    const method = (options.method ?? 'GET').toUpperCase();
+    if (!this.coalesceGets || method !== 'GET' || options.body || endpoint === '/batch') {
+      return undefined;
+    }
+    const params = new URLSearchParams();
+    for (const [k, v] of Object.entries(extraParams ?? {})) {
+      if (v !== undefined && v !== null && v !== '') params.set(k, v);
+    }
+    const query = params.toString();
+    const route = query ? `${endpoint}?${query}` : endpoint;
+    return containsComma(route) ? undefined : route;
+  }
+
+  /**
+   * Send the queued GETs: alone when only one is waiting, otherwise as /batch
+   * calls. Entries that failed with a retryable status are sent again on
+   * their own so they get the normal retry handling.
+   */
+  private async flushPendingGets(): Promise<void> {
+    const pending = this.pendingGets;
+    this.pendingGets = [];
+
+    const direct = (get: PendingGet) =>
+      this.requestDirect(get.endpoint, {}, get.params).then(get.resolve, get.reject);
+    if (pending.length === 1) {
+      await direct(pending[0]);
+      return;
+    }
+
+    const chunks: PendingGet[][] = [];
+    for (let i = 0; i < pending.length; i += BATCH_LIMIT) {
+      chunks.push(pending.slice(i, i + BATCH_LIMIT));
+    }
+    await Promise.all(
+      chunks.map(async (chunk) => {
+        let entries: Record<string, unknown>[];
+        try {
+          entries = await this.requestDirect<Record<string, unknown>[]>('/batch', {}, {
+            urls: chunk.map((get) => get.route).join(','),
+          });
+        } catch (error) {
+          for (const get of chunk) get.reject(error);
+          return;
+        }
+        await Promise.all(
+          chunk.map((get, i) => {
+            const result = parseBatchEntry(entries[i], get.route);
+            if (result.ok) {
+              get.resolve(result.data);
+            } else if (result.status === 429 || result.status >= 500) {
+              return direct(get);
+            } else {
+              get.reject(batchEntryError(result));
+            }
+            return undefined;
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Send one request through the retry pipeline
+   */
+  private async requestDirect<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    extraParams?: Record<string, string>
   ): Promise<T> {
     const params = this.getAuthParams();
     if (extraParams) {
@@ -211,18 +490,46 @@ class TrelloClientImpl implements TrelloClient {
 
     const url = `${API_BASE_URL}${endpoint}?${params}`;
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(options.headers || {}),
-      },
-    });
+    return withRetry(async () => {
+      const response = await this.send(url, options);
+
+      // Handle 200 with empty body
+      const text = await response.text();
+      if (!text) {
+        return undefined as T;
+      }
+
+      return JSON.parse(text) as T;
+    }, this.retryOptions, this.retryPolicy(options.method));
+  }
+
+  /**
+   * Issue a single HTTP request and map error statuses to typed errors
+   */
+  private async send(url: string, options: RequestInit): Promise<Response> {
+    await this.rateLimiter?.acquire(this.credentials);
+
+    let response: Response;
+    try {
+      // Multipart uploads must let fetch set the Content-Type with its boundary
+      const isFormData = options.body instanceof FormData;
+      response = await fetch(url, {
+        ...options,
+        headers: {
+          ...(!isFormData && { 'Content-Type': 'application/json' }),
+          ...(options.headers || {}),
+        },
+      });
+    } catch (error) {
+      // Surface network failures as retryable API errors
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ApiError(`Network error: ${message}`, undefined, 'NETWORK_ERROR', true);
+    }
 
     // Handle rate limiting
     if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      throw new RateLimitError('Rate limit exceeded', retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
     }
 
     // Handle authentication errors
@@ -230,19 +537,18 @@ class TrelloClientImpl implements TrelloClient {
       throw new AuthenticationError('Invalid API key or token');
     }
 
-    // Handle other errors
+    // Handle other errors (5xx responses are transient and can be retried)
     if (!response.ok) {
       const errorBody = await response.text();
-      throw new ApiError(`Trello API error: ${errorBody}`, response.status);
-    }
-
-    // Handle 200 with empty body
-    const text = await response.text();
-    if (!text) {
-      return undefined as T;
+      throw new ApiError(
+        `Trello API error: ${errorBody}`,
+        response.status,
+        undefined,
+        response.status >= 500
+      );
     }
 
-    return JSON.parse(text) as T;
+    return response;
   }
 
   // ===========================================================================
@@ -357,16 +663,24 @@ class TrelloClientImpl implements TrelloClient {
     return this.request<TrelloList[]>(`/boards/${boardId}/lists`, {}, { filter });
   }
 
-  async getBoardCards(boardId: string, filter: 'all' | 'open' | 'closed' = 'open'): Promise<TrelloCard[]> {
-    return this.request<TrelloCard[]>(`/boards/${boardId}/cards`, {}, { filter });
+  async getBoardCards(
+    boardId: string,
+    filter: 'all' | 'open' | 'closed' = 'open',
+    options: { customFieldItems?: boolean; attachments?: boolean } = {}
+  ): Promise<TrelloCard[]> {
+    const params: Record<string, string> = { filter };
+    if (options.customFieldItems) params.customFieldItems = 'true';
+    if (options.attachments) params.attachments = 'true';
+    return this.request<TrelloCard[]>(`/boards/${boardId}/cards`, {}, params);
   }
 
   async getBoardLabels(boardId: string): Promise<TrelloLabel[]> {
-    return this.request<TrelloLabel[]>(`/boards/${boardId}/labels`);
+    // Trello returns only the first 50 labels unless a limit is given
+    return this.request<TrelloLabel[]>(`/boards/${boardId}/labels`, {}, { limit: '1000' });
   }
 
-  async getBoardActions(boardId: string, limit = 50): Promise<TrelloAction[]> {
-    return this.request<TrelloAction[]>(`/boards/${boardId}/actions`, {}, { limit: String(limit) });
+  async getBoardActions(boardId: string, query: TrelloActionQuery = {}): Promise<TrelloAction[]> {
+    return this.request<TrelloAction[]>(`/boards/${boardId}/actions`, {}, this.buildActionParams(query));
   }
 
   async getBoardChecklists(boardId: string): Promise<TrelloChecklist[]> {
@@ -478,7 +792,21 @@ class TrelloClientImpl implements TrelloClient {
     if (input.dueComplete !== undefined) params.dueComplete = String(input.dueComplete);
     if (input.subscribed !== undefined) params.subscribed = String(input.subscribed);
 
-    return this.request<TrelloCard>(`/cards/${cardId}`, { method: 'PUT' }, params);
+    // Member/label sets and the cover go in the JSON body: an empty list must
+    // be sent as an empty string to clear it, and the cover is a nested object
+    const body: Record<string, unknown> = {};
+    if (input.idMembers !== undefined) body.idMembers = input.idMembers.join(',');
+    if (input.idLabels !== undefined) body.idLabels = input.idLabels.join(',');
+    if (input.cover !== undefined) body.cover = input.cover;
+
+    return this.request<TrelloCard>(
+      `/cards/${cardId}`,
+      {
+        method: 'PUT',
+        ...(Object.keys(body).length > 0 && { body: JSON.stringify(body) }),
+      },
+      params
+    );
   }
 
   async deleteCard(cardId: string): Promise<void> {
@@ -499,15 +827,43 @@ class TrelloClientImpl implements TrelloClient {
     return this.updateCard(cardId, input);
   }
 
-  async getCardActions(cardId: string, limit = 50): Promise<TrelloAction[]> {
-    return this.request<TrelloAction[]>(`/cards/${cardId}/actions`, {}, { limit: String(limit) });
+  async getCardActions(cardId: string, query: TrelloActionQuery = {}): Promise<TrelloAction[]> {
+    return this.request<TrelloAction[]>(`/cards/${cardId}/actions`, {}, this.buildActionParams(query));
   }
 
   async getCardAttachments(cardId: string): Promise<TrelloAttachment[]> {
     return this.request<TrelloAttachment[]>(`/cards/${cardId}/attachments`);
   }
 
+  async getAttachment(cardId: string, attachmentId: string): Promise<TrelloAttachment> {
+    return this.request<TrelloAttachment>(`/cards/${cardId}/attachments/${attachmentId}`);
+  }
+
+  /**
+   * Download the content of an uploaded attachment.
+   * Trello's download endpoint only accepts credentials in an OAuth header.
+   * With `maxBytes`, the download stops as soon as the body exceeds it, since
+   * attachment metadata does not always include the size.
+   */
+  async downloadAttachment(attachment: TrelloAttachment, maxBytes?: number): Promise<ArrayBuffer> {
+    if (!attachment.isUpload) {
+      throw new ValidationError('Only uploaded files can be downloaded', {
+        attachmentId: [`Attachment ${attachment.id} is a link to ${attachment.url}`],
+      });
+    }
+
+    const authorization = `OAuth oauth_consumer_key="${this.credentials.apiKey}", oauth_token="${this.credentials.token}"`;
+    return withRetry(async () => {
+      const response = await this.send(attachment.url, { headers: { Authorization: authorization } });
+      return maxBytes === undefined ? response.arrayBuffer() : readLimited(response, maxBytes);
+    }, this.retryOptions, this.retryPolicy('GET'));
+  }
+
   async addAttachmentToCard(cardId: string, input: TrelloAttachmentCreateInput): Promise<TrelloAttachment> {
+    if (input.file) {
+      return this.uploadAttachment(cardId, input, input.file);
+    }
+
     const params: Record<string, string> = {};
     if (input.name) params.name = input.name;
     if (input.url) params.url = input.url;
@@ -517,6 +873,56 @@ class TrelloClientImpl implements TrelloClient {
     return this.request<TrelloAttachment>(`/cards/${cardId}/attachments`, { method: 'POST' }, params);
   }
 
+  private async uploadAttachment(
+    cardId: string,
+    input: TrelloAttachmentCreateInput,
+    base64: string
+  ): Promise<TrelloAttachment> {
+    const bytes = decodeBase64(base64, 'file');
+    await this.validateAttachmentSize(cardId, bytes.byteLength);
+
+    const fileName = input.fileName || input.name || 'attachment';
+    const mimeType = input.mimeType || 'application/octet-stream';
+
+    const form = new FormData();
+    form.append('file', new Blob([bytes], { type: mimeType }), fileName);
+    form.append('name', input.name || fileName);
+    form.append('mimeType', mimeType);
+    if (input.setCover !== undefined) form.append('setCover', String(input.setCover));
+
+    return this.request<TrelloAttachment>(`/cards/${cardId}/attachments`, {
+      method: 'POST',
+      body: form,
+    });
+  }
+
+  /**
+   * Reject uploads over Trello's limits. Files above the free limit are only
+   * accepted when the card's board belongs to a paid workspace.
+   */
+  private async validateAttachmentSize(cardId: string, size: number): Promise<void> {
+    const limitError = (limit: number) =>
+      new ValidationError(`Attachment is too large (${size} bytes)`, {
+        file: [`Maximum upload size is ${limit / (1024 * 1024)}MB`],
+      });
+
+    if (size > ATTACHMENT_SIZE_LIMITS.paid) {
+      throw limitError(ATTACHMENT_SIZE_LIMITS.paid);
+    }
+    if (size <= ATTACHMENT_SIZE_LIMITS.free) {
+      return;
+    }
+
+    const card = await this.getCard(cardId);
+    const board = await this.getBoard(card.idBoard);
+    const organization = board.idOrganization
+      ? await this.getOrganization(board.idOrganization)
+      : undefined;
+    if (!organization?.products?.length) {
+      throw limitError(ATTACHMENT_SIZE_LIMITS.free);
+    }
+  }
+
   async deleteAttachment(cardId: string, attachmentId: string): Promise<void> {
     await this.request<void>(`/cards/${cardId}/attachments/${attachmentId}`, { method: 'DELETE' });
   }
@@ -764,6 +1170,54 @@ class TrelloClientImpl implements TrelloClient {
     return this.request<TrelloAction>(`/actions/${actionId}`);
   }
 
+  private buildActionParams(query: TrelloActionQuery): Record<string, string> {
+    const params: Record<string, string> = { limit: String(query.limit ?? 50) };
+    if (query.before) params.before = query.before;
+    if (query.since) params.since = query.since;
+    if (query.filter?.length) params.filter = query.filter.join(',');
+    return params;
+  }
+
+  // ===========================================================================
+  // Batch
+  // ===========================================================================
+
+  /**
+   * Issue GET requests through /batch, BATCH_LIMIT paths per call.
+   * Results are returned in the order of `paths`; a failed request does not
+   * fail the others.
+   */
+  async batchGet<T = unknown>(paths: string[]): Promise<TrelloBatchResult<T>[]> {
+    const invalid = paths.filter(containsComma);
+    if (invalid.length > 0) {
+      throw new ValidationError('Batch paths cannot contain commas', {
+        paths: invalid.map((path) => `"${path}" would be split into several requests`),
+      });
+    }
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < paths.length; i += BATCH_LIMIT) {
+      chunks.push(paths.slice(i, i + BATCH_LIMIT));
+    }
+
+    const responses = await Promise.all(
+      chunks.map(async (chunk) => {
+        const entries = await this.request<Record<string, unknown>[]>('/batch', {}, {
+          urls: chunk.join(','),
+        });
+        // Results are matched to paths by position, so a short or long reply cannot be used
+        if (!Array.isArray(entries) || entries.length !== chunk.length) {
+          throw new ApiError(
+            `Batch returned ${Array.isArray(entries) ? entries.length : 'no'} results for ${chunk.length} requests`
+          );
+        }
+        return entries.map((entry, i) => parseBatchEntry<T>(entry, chunk[i]));
+      })
+    );
+
+    return responses.flat();
+  }
+
   // ===========================================================================
   // Search
   // ===========================================================================
@@ -827,6 +1281,41 @@ class TrelloClientImpl implements TrelloClient {
   async deleteWebhook(webhookId: string): Promise<void> {
     await this.request<void>(`/webhooks/${webhookId}`, { method: 'DELETE' });
   }
+
+  // ===========================================================================
+  // Models
+  // ===========================================================================
+
+  /**
+   * Find a model by ID without knowing its type.
+   *
+   * Trello has no generic lookup, so each model endpoint is tried in turn.
+   * Returns null when the ID is deleted (404) or not a model at all (400), and
+   * 'inaccessible' when an endpoint refused the token (401), since then the
+   * model may still exist.
+   */
+  async findModel(modelId: string): Promise<TrelloModelRef | 'inaccessible' | null> {
+    let unauthorized = false;
+    for (const [type, path] of MODEL_ENDPOINTS) {
+      try {
+        const model = await this.request<{ id: string; name?: string; fullName?: string }>(
+          `/${path}/${modelId}`,
+          {},
+          { fields: type === 'member' ? 'fullName' : 'name' }
+        );
+        return { type, id: model.id, name: model.name ?? model.fullName ?? '' };
+      } catch (error) {
+        // 400 (wrong type) and 404 (deleted) mean "not found here"
+        const status = error instanceof ApiError ? error.statusCode : undefined;
+        if (status === 401) {
+          unauthorized = true;
+        } else if (status !== 400 && status !== 404) {
+          throw error;
+        }
+      }
+    }
+    return unauthorized ? 'inaccessible' : null;
+  }
 }
 
 // =============================================================================
@@ -840,7 +1329,11 @@ class TrelloClientImpl implements TrelloClient {
  * allowing a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param options - Optional client behaviour overrides (retry policy, rate limiter)
  */
-export function createTrelloClient(credentials: TenantCredentials): TrelloClient {
-  return new TrelloClientImpl(credentials);
+export function createTrelloClient(
+  credentials: TenantCredentials,
+  options?: TrelloClientOptions
+): TrelloClient {
+  return new TrelloClientImpl(credentials, options);
 }
@@ -12,19 +12,28 @@
  * - X-Trello-API-Key: Trello API key
  * - X-Trello-Token: Trello API token
  *
+ * Optional Headers:
+ * - X-Trello-Dry-Run: "true" to preview destructive tools unless dryRun=false
+ *
  * Get your API key and token from: https://trello.com/power-ups/admin
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
 import { createTrelloClient } from './client.js';
-import { registerAllTools } from './tools/index.js';
+import { registerAllPrompts } from './prompts/index.js';
+import { createRateLimiterStore, RateLimiter } from './rate-limiter.js';
+import { registerAllResources } from './resources/index.js';
+import { createToolContext, registerAllTools } from './tools/index.js';
 import {
   type Env,
+  getTenantId,
   type TenantCredentials,
+  parseDryRunDefault,
   parseTenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { handleTrelloWebhook, WEBHOOK_ROUTE } from './webhooks/receiver.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -33,6 +42,9 @@ import {
 const SERVER_NAME = 'primrose-mcp-trello';
 const SERVER_VERSION = '1.0.0';
 
+// Durable Object classes must be exported from the Worker entry point
+export { RateLimiterDurableObject } from './rate-limiter.js';
+
 // =============================================================================
 // MCP Agent (Stateful - uses Durable Objects)
 // =============================================================================
@@ -71,18 +83,40 @@ export class TrelloMcpAgent extends McpAgent<Env> {
  * a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param env - Worker environment bindings
+ * @param request - Incoming request, for the origin and tenant defaults
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+async function createStatelessServer(
+  credentials: TenantCredentials,
+  env: Env,
+  request: Request
+): Promise<McpServer> {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
-  // Create client with tenant-specific credentials
-  const client = createTrelloClient(credentials);
+  // Create client with tenant-specific credentials, throttled by a limiter
+  // whose state outlives this request
+  const client = createTrelloClient(credentials, {
+    rateLimiter: new RateLimiter(createRateLimiterStore(env)),
+  });
+
+  const context = createToolContext(env, {
+    tenant: await getTenantId(credentials),
+    origin: new URL(request.url).origin,
+    dryRunDefault: parseDryRunDefault(request),
+    confirmationKey: credentials.token,
+  });
 
   // Register all Trello tools
-  registerAllTools(server, client);
+  registerAllTools(server, client, context);
+
+  // Register boards, lists and cards as trello:// resources
+  registerAllResources(server, client, context);
+
+  // Register prompts for common Trello workflows
+  registerAllPrompts(server, client, context);
 
   // Test connection tool
   server.tool('trello_test_connection', 'Test the connection to the Trello API', {}, async () => {
@@ -151,7 +185,7 @@ export default {
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = await createStatelessServer(credentials, env, request);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -159,6 +193,14 @@ export default {
       return handler(request, env, ctx);
     }
 
+    // ==========================================================================
+    // Trello webhook deliveries (callback URL for trello_create_webhook)
+    // ==========================================================================
+    const webhookMatch = url.pathname.match(WEBHOOK_ROUTE);
+    if (webhookMatch) {
+      return handleTrelloWebhook(request, env, webhookMatch[1]);
+    }
+
     // SSE endpoint for legacy clients
     if (url.pathname === '/sse') {
       return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
@@ -175,13 +217,28 @@ export default {
         endpoints: {
           mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
           health: '/health - Health check',
+          webhooks: '/webhooks/trello/:tenant (HEAD, POST) - Trello webhook callback URL',
         },
+        resources: [
+          'trello://board/{boardId}',
+          'trello://board/{boardId}/lists',
+          'trello://card/{cardId}',
+        ],
+        prompts: [
+          'daily_standup',
+          'sprint_planning',
+          'triage_inbox_list',
+          'release_notes_from_done_list',
+        ],
         authentication: {
           description: 'Pass tenant credentials via request headers',
           required_headers: {
             'X-Trello-API-Key': 'Trello API key',
             'X-Trello-Token': 'Trello API token',
           },
+          optional_headers: {
+            'X-Trello-Dry-Run': 'Set to true to preview destructive tools by default',
+          },
           get_credentials: 'https://trello.com/power-ups/admin',
         },
         available_tools: [
@@ -218,11 +275,15 @@ export default {
           'trello_move_card',
           'trello_add_comment',
           'trello_get_card_comments',
+          'trello_update_comment',
+          'trello_delete_comment',
+          'trello_get_card_actions',
           'trello_add_label_to_card',
           'trello_remove_label_from_card',
           'trello_add_member_to_card',
           'trello_remove_member_from_card',
           'trello_get_card_attachments',
+          'trello_read_attachment',
           'trello_add_attachment',
           'trello_delete_attachment',
           'trello_get_card_custom_fields',
@@ -257,12 +318,15 @@ export default {
           'trello_get_organization_boards',
           // Search
           'trello_search',
+          'trello_query_cards',
           // Webhooks
           'trello_list_webhooks',
           'trello_get_webhook',
           'trello_create_webhook',
           'trello_update_webhook',
           'trello_delete_webhook',
+          'trello_get_recent_events',
+          'trello_audit_webhooks',
           // Custom Fields
           'trello_get_custom_field',
           'trello_create_custom_field',
@@ -271,6 +335,19 @@ export default {
           'trello_get_custom_field_options',
           'trello_add_custom_field_option',
           'trello_delete_custom_field_option',
+          // Batch
+          'trello_batch_get',
+          // Bulk
+          'trello_bulk_update_cards',
+          // Undo
+          'trello_undo',
+          // Archive
+          'trello_export_board',
+          'trello_import_board',
+          // Import
+          'trello_import_cards',
+          // Export
+          'trello_export_cards_csv',
           // Connection
           'trello_test_connection',
         ],
@@ -0,0 +1,204 @@
+/**
+ * Trello MCP Prompts
+ *
+ * Reusable prompts for common Trello workflows. Each prompt takes a board ID,
+ * loads the relevant lists, cards and activity through the TrelloClient and
+ * returns a single structured user message.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { TrelloClient } from '../client.js';
+import { renderBoardDocument } from '../resources/markdown.js';
+import type { ToolContext } from '../tools/context.js';
+import type { TrelloList } from '../types/entities.js';
+import { NotFoundError } from '../utils/errors.js';
+import { formatAsMarkdown, truncateText } from '../utils/formatters.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find a list by name (case-insensitive), falling back to the first list
+ * whose name matches one of the defaults
+ */
+function findList(lists: TrelloList[], name: string | undefined, defaults: string[]): TrelloList {
+  const candidates = name ? [name] : defaults;
+  for (const candidate of candidates) {
+    const list = lists.find((l) => l.name.trim().toLowerCase() === candidate.toLowerCase());
+    if (list) return list;
+  }
+  throw new NotFoundError('List', candidates.join(' / '));
+}
+
+/**
+ * Register all Trello prompts with the MCP server
+ */
+export function registerAllPrompts(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  const userMessage = (sections: string[]) => ({
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: truncateText(sections.join('\n\n'), context.characterLimit),
+        },
+      },
+    ],
+  });
+
+  // ===========================================================================
+  // Daily Standup
+  // ===========================================================================
+  server.registerPrompt(
+    'daily_standup',
+    {
+      title: 'Daily standup',
+      description: 'Summarize the last 24 hours of board activity as a standup report',
+      argsSchema: {
+        boardId: z.string().describe('Board ID'),
+      },
+    },
+    async ({ boardId }) => {
+      const since = new Date(Date.now() - DAY_MS).toISOString();
+      const [board, lists, cards, actions, members] = await Promise.all([
+        client.getBoard(boardId),
+        client.getBoardLists(boardId),
+        client.getBoardCards(boardId),
+        client.getBoardActions(boardId, { since, limit: 200 }),
+        client.getBoardMembers(boardId),
+      ]);
+
+      return userMessage([
+        `Prepare a daily standup report for the Trello board "${board.name}".`,
+        [
+          'For each member, list what they did in the last 24 hours, what they are working on now, and any blockers.',
+          'Treat cards that are overdue, or that have not moved in a long time, as possible blockers.',
+          'Finish with a short list of cards that need attention today.',
+        ].join('\n'),
+        `# Activity since ${since}\n\n${formatAsMarkdown(actions, 'actions')}`,
+        `# Members\n\n${formatAsMarkdown(members, 'members')}`,
+        renderBoardDocument(board, lists, cards),
+      ]);
+    }
+  );
+
+  // ===========================================================================
+  // Sprint Planning
+  // ===========================================================================
+  server.registerPrompt(
+    'sprint_planning',
+    {
+      title: 'Sprint planning',
+      description: 'Propose a sprint plan from the open cards on a board',
+      argsSchema: {
+        boardId: z.string().describe('Board ID'),
+        sprintDays: z.string().optional().describe('Sprint length in days (default: 14)'),
+      },
+    },
+    async ({ boardId, sprintDays }) => {
+      const [board, lists, cards, members] = await Promise.all([
+        client.getBoard(boardId),
+        client.getBoardLists(boardId),
+        client.getBoardCards(boardId),
+        client.getBoardMembers(boardId),
+      ]);
+
+      return userMessage([
+        `Plan the next ${sprintDays || '14'}-day sprint for the Trello board "${board.name}".`,
+        [
+          'Propose which cards should be committed to the sprint and who should own each one.',
+          'Prioritize cards with near due dates and cards already in progress.',
+          'Balance the workload across members and call out cards that are too large or unclear to commit to.',
+        ].join('\n'),
+        `# Members\n\n${formatAsMarkdown(members, 'members')}`,
+        renderBoardDocument(board, lists, cards),
+      ]);
+    }
+  );
+
+  // ===========================================================================
+  // Triage Inbox List
+  // ===========================================================================
+  server.registerPrompt(
+    'triage_inbox_list',
+    {
+      title: 'Triage inbox list',
+      description: 'Suggest labels, owners and destination lists for cards in an inbox list',
+      argsSchema: {
+        boardId: z.string().describe('Board ID'),
+        listName: z.string().optional().describe('Inbox list name (default: Inbox or Triage)'),
+      },
+    },
+    async ({ boardId, listName }) => {
+      const [board, lists, cards, labels, members] = await Promise.all([
+        client.getBoard(boardId),
+        client.getBoardLists(boardId),
+        client.getBoardCards(boardId),
+        client.getBoardLabels(boardId),
+        client.getBoardMembers(boardId),
+      ]);
+      const inbox = findList(lists, listName, ['Inbox', 'Triage']);
+      const inboxCards = cards.filter((card) => card.idList === inbox.id);
+
+      return userMessage([
+        `Triage the ${inboxCards.length} cards in the "${inbox.name}" list of the Trello board "${board.name}".`,
+        [
+          'For each card, suggest the labels to apply, the member who should own it and the list it should move to.',
+          'Use only the labels, members and lists shown below, and reference them by ID.',
+          'Flag cards that are duplicates, lack enough detail to act on, or should be closed.',
+        ].join('\n'),
+        `# Cards in ${inbox.name}\n\n${formatAsMarkdown(inboxCards, 'cards')}`,
+        `# Labels\n\n${formatAsMarkdown(labels, 'labels')}`,
+        `# Members\n\n${formatAsMarkdown(members, 'members')}`,
+        `# Lists\n\n${formatAsMarkdown(lists, 'lists')}`,
+      ]);
+    }
+  );
+
+  // ===========================================================================
+  // Release Notes from Done List
+  // ===========================================================================
+  server.registerPrompt(
+    'release_notes_from_done_list',
+    {
+      title: 'Release notes from done list',
+      description: 'Draft release notes from the cards in a done list',
+      argsSchema: {
+        boardId: z.string().describe('Board ID'),
+        listName: z.string().optional().describe('Done list name (default: Done)'),
+        version: z.string().optional().describe('Release version or name'),
+      },
+    },
+    async ({ boardId, listName, version }) => {
+      const [board, lists, cards] = await Promise.all([
+        client.getBoard(boardId),
+        client.getBoardLists(boardId),
+        client.getBoardCards(boardId),
+      ]);
+      const done = findList(lists, listName, ['Done', 'Completed', 'Shipped']);
+      const doneCards = cards.filter((card) => card.idList === done.id);
+
+      const details = doneCards.map((card) => {
+        const labels = card.labels.map((label) => label.name || label.color).join(', ');
+        return [
+          `## ${card.name}`,
+          `ID: \`${card.id}\`${labels ? ` | Labels: ${labels}` : ''}`,
+          card.desc || '_No description_',
+        ].join('\n');
+      });
+
+      return userMessage([
+        `Write release notes${version ? ` for ${version}` : ''} from the ${doneCards.length} cards in the "${done.name}" list of the Trello board "${board.name}".`,
+        [
+          'Group the changes into New features, Improvements and Bug fixes, using the card labels as hints.',
+          'Write each entry for end users in one sentence and leave out internal-only work.',
+        ].join('\n'),
+        details.join('\n\n') || '_The list has no cards._',
+      ]);
+    }
+  );
+}
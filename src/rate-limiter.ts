@@ -0,0 +1,240 @@
+/**
+ * Client-side Rate Limiter
+ *
+ * Token buckets that throttle outgoing Trello requests before they hit the API.
+ * Reference: https://developer.atlassian.com/cloud/trello/guides/rest-api/rate-limits/
+ *
+ * MULTI-TENANT: Buckets are keyed by hashed API key and token, so every MCP
+ * request made with the same TenantCredentials shares one budget. Bucket state
+ * lives in a RateLimiterStore: a Durable Object when the RATE_LIMITER binding
+ * is configured, otherwise an in-memory store scoped to the Worker isolate.
+ */
+
+import type { Env, TenantCredentials } from './types/env.js';
+import { sha256Hex } from './utils/crypto.js';
+import { RateLimitError } from './utils/errors.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface BucketConfig {
+  /** Maximum number of requests that can be issued in a burst */
+  capacity: number;
+
+  /** Tokens added back to the bucket per second */
+  refillPerSecond: number;
+
+  /** Longest a request may be queued before it is rejected */
+  maxWaitMs: number;
+}
+
+/** Trello allows 300 requests per 10 seconds for each API key */
+export const API_KEY_BUCKET: BucketConfig = {
+  capacity: 300,
+  refillPerSecond: 30,
+  maxWaitMs: 30000,
+};
+
+/** Trello allows 100 requests per 10 seconds for each token */
+export const TOKEN_BUCKET: BucketConfig = {
+  capacity: 100,
+  refillPerSecond: 10,
+  maxWaitMs: 30000,
+};
+
+// =============================================================================
+// Token Bucket
+// =============================================================================
+
+export interface BucketState {
+  /** Available tokens; negative values are reservations for queued requests */
+  tokens: number;
+
+  /** Timestamp (ms) of the last refill */
+  updatedAt: number;
+}
+
+export interface BucketReservation {
+  granted: boolean;
+  waitMs: number;
+}
+
+/**
+ * Reserve one token from a bucket.
+ *
+ * Requests that arrive while the bucket is empty are granted a slot in the
+ * future (waitMs > 0) as long as the queue does not exceed maxWaitMs.
+ */
+export function reserveToken(
+  state: BucketState | undefined,
+  config: BucketConfig,
+  now: number
+): { state: BucketState; reservation: BucketReservation } {
+  const current = state ?? { tokens: config.capacity, updatedAt: now };
+  const elapsedSeconds = Math.max(0, now - current.updatedAt) / 1000;
+  const tokens = Math.min(
+    config.capacity,
+    current.tokens + elapsedSeconds * config.refillPerSecond
+  );
+  const remaining = tokens - 1;
+  const waitMs = remaining >= 0 ? 0 : Math.ceil((-remaining / config.refillPerSecond) * 1000);
+
+  if (waitMs > config.maxWaitMs) {
+    return {
+      state: { tokens, updatedAt: now },
+      reservation: { granted: false, waitMs },
+    };
+  }
+
+  return {
+    state: { tokens: remaining, updatedAt: now },
+    reservation: { granted: true, waitMs },
+  };
+}
+
+/**
+ * Give back a token reserved by reserveToken for a request that is not sent
+ */
+export function releaseToken(
+  state: BucketState | undefined,
+  config: BucketConfig,
+  now: number
+): BucketState {
+  const current = state ?? { tokens: config.capacity, updatedAt: now };
+  const elapsedSeconds = Math.max(0, now - current.updatedAt) / 1000;
+  const tokens = current.tokens + elapsedSeconds * config.refillPerSecond + 1;
+  return { tokens: Math.min(config.capacity, tokens), updatedAt: now };
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface RateLimiterStore {
+  reserve(bucketKey: string, config: BucketConfig): Promise<BucketReservation>;
+  release(bucketKey: string, config: BucketConfig): Promise<void>;
+}
+
+/**
+ * In-memory bucket store. State is shared by every request handled by the
+ * same Worker isolate, and is the default for local development and tests.
+ */
+export class MemoryRateLimiterStore implements RateLimiterStore {
+  private buckets = new Map<string, BucketState>();
+
+  async reserve(bucketKey: string, config: BucketConfig): Promise<BucketReservation> {
+    const result = reserveToken(this.buckets.get(bucketKey), config, Date.now());
+    this.buckets.set(bucketKey, result.state);
+    return result.reservation;
+  }
+
+  async release(bucketKey: string, config: BucketConfig): Promise<void> {
+    this.buckets.set(bucketKey, releaseToken(this.buckets.get(bucketKey), config, Date.now()));
+  }
+}
+
+/**
+ * Bucket store backed by one RateLimiterDurableObject instance per bucket
+ */
+export class DurableObjectRateLimiterStore implements RateLimiterStore {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async reserve(bucketKey: string, config: BucketConfig): Promise<BucketReservation> {
+    const stub = this.namespace.get(this.namespace.idFromName(bucketKey));
+    const response = await stub.fetch('https://rate-limiter/reserve', {
+      method: 'POST',
+      body: JSON.stringify(config),
+    });
+    return response.json<BucketReservation>();
+  }
+
+  async release(bucketKey: string, config: BucketConfig): Promise<void> {
+    const stub = this.namespace.get(this.namespace.idFromName(bucketKey));
+    await stub.fetch('https://rate-limiter/release', {
+      method: 'POST',
+      body: JSON.stringify(config),
+    });
+  }
+}
+
+/**
+ * Durable Object holding the state of a single token bucket.
+ *
+ * Durable Objects process requests one at a time, so reservations from
+ * concurrent Worker requests are serialized without extra locking. The bucket
+ * is persisted in storage so an evicted object resumes with its budget spent.
+ */
+export class RateLimiterDurableObject implements DurableObject {
+  private bucket?: BucketState;
+
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const config = await request.json<BucketConfig>();
+    this.bucket ??= await this.state.storage.get<BucketState>('bucket');
+    const now = Date.now();
+
+    if (new URL(request.url).pathname === '/release') {
+      this.bucket = releaseToken(this.bucket, config, now);
+      await this.state.storage.put('bucket', this.bucket);
+      return Response.json({ released: true });
+    }
+
+    const result = reserveToken(this.bucket, config, now);
+    this.bucket = result.state;
+    await this.state.storage.put('bucket', this.bucket);
+    return Response.json(result.reservation);
+  }
+}
+
+const sharedMemoryStore = new MemoryRateLimiterStore();
+
+/**
+ * Pick the bucket store for the current environment
+ */
+export function createRateLimiterStore(env: Env): RateLimiterStore {
+  return env.RATE_LIMITER ? new DurableObjectRateLimiterStore(env.RATE_LIMITER) : sharedMemoryStore;
+}
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+export class RateLimiter {
+  constructor(private store: RateLimiterStore) {}
+
+  /**
+   * Wait until both the API key and token budgets allow another request.
+   * Throws RateLimitError when the queue is longer than the bucket allows.
+   */
+  async acquire(credentials: TenantCredentials): Promise<void> {
+    const [keyHash, tokenHash] = await Promise.all([
+      sha256Hex(credentials.apiKey),
+      sha256Hex(credentials.token),
+    ]);
+
+    const buckets: [string, BucketConfig][] = [
+      [`key:${keyHash}`, API_KEY_BUCKET],
+      [`token:${tokenHash}`, TOKEN_BUCKET],
+    ];
+    const reservations = await Promise.all(
+      buckets.map(([bucketKey, config]) => this.store.reserve(bucketKey, config))
+    );
+
+    const waitMs = Math.max(...reservations.map((reservation) => reservation.waitMs));
+    if (reservations.some((reservation) => !reservation.granted)) {
+      // The request is not sent, so return the tokens the other bucket granted
+      await Promise.all(
+        buckets
+          .filter((_, index) => reservations[index].granted)
+          .map(([bucketKey, config]) => this.store.release(bucketKey, config))
+      );
+      throw new RateLimitError('Client-side rate limit queue is full', Math.ceil(waitMs / 1000));
+    }
+
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+}
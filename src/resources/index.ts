@@ -0,0 +1,121 @@
+/**
+ * Trello MCP Resources
+ *
+ * Boards, lists and cards exposed as markdown documents under trello:// URIs,
+ * so clients can attach them as context without a tool call.
+ *
+ * URIs:
+ * - trello://board/{boardId}        Board overview with cards grouped by list
+ * - trello://board/{boardId}/lists  Lists on a board with card counts
+ * - trello://card/{cardId}          Card details, checklists and attachments
+ */
+
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { TrelloClient } from '../client.js';
+import type { ToolContext } from '../tools/context.js';
+import { truncateText } from '../utils/formatters.js';
+import { renderBoardDocument, renderBoardListsDocument, renderCardDocument } from './markdown.js';
+
+const MARKDOWN = 'text/markdown';
+
+/**
+ * Read a single template variable
+ */
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Register all Trello resources with the MCP server
+ */
+export function registerAllResources(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  const document = (uri: URL, text: string) => ({
+    contents: [
+      { uri: uri.href, mimeType: MARKDOWN, text: truncateText(text, context.characterLimit) },
+    ],
+  });
+
+  // ===========================================================================
+  // Board
+  // ===========================================================================
+  server.registerResource(
+    'trello_board',
+    new ResourceTemplate('trello://board/{boardId}', {
+      // resources/list: the member's open boards
+      list: async () => {
+        const boards = await client.listBoards('open');
+        return {
+          resources: boards.map((board) => ({
+            uri: `trello://board/${board.id}`,
+            name: board.name,
+            description: board.desc || undefined,
+            mimeType: MARKDOWN,
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Trello board',
+      description: 'Board overview with open lists and the cards in each list',
+      mimeType: MARKDOWN,
+    },
+    async (uri, variables) => {
+      const boardId = variable(variables, 'boardId');
+      const [board, lists, cards] = await Promise.all([
+        client.getBoard(boardId),
+        client.getBoardLists(boardId),
+        client.getBoardCards(boardId),
+      ]);
+      return document(uri, renderBoardDocument(board, lists, cards));
+    }
+  );
+
+  // ===========================================================================
+  // Board Lists
+  // ===========================================================================
+  server.registerResource(
+    'trello_board_lists',
+    new ResourceTemplate('trello://board/{boardId}/lists', { list: undefined }),
+    {
+      title: 'Trello board lists',
+      description: 'Open lists on a board with their card counts',
+      mimeType: MARKDOWN,
+    },
+    async (uri, variables) => {
+      const boardId = variable(variables, 'boardId');
+      const [board, lists, cards] = await Promise.all([
+        client.getBoard(boardId),
+        client.getBoardLists(boardId),
+        client.getBoardCards(boardId),
+      ]);
+      return document(uri, renderBoardListsDocument(board, lists, cards));
+    }
+  );
+
+  // ===========================================================================
+  // Card
+  // ===========================================================================
+  server.registerResource(
+    'trello_card',
+    new ResourceTemplate('trello://card/{cardId}', { list: undefined }),
+    {
+      title: 'Trello card',
+      description: 'Card details with checklists and attachments',
+      mimeType: MARKDOWN,
+    },
+    async (uri, variables) => {
+      const card = await client.getCard(variable(variables, 'cardId'));
+      const [list, members] = await Promise.all([
+        client.getList(card.idList),
+        client.getBoardMembers(card.idBoard),
+      ]);
+      return document(uri, renderCardDocument(card, list, members));
+    }
+  );
+}
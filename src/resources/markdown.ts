@@ -0,0 +1,141 @@
+/**
+ * Resource Rendering
+ *
+ * Markdown documents for boards, lists and cards exposed as MCP resources.
+ */
+
+import type { TrelloBoard, TrelloCard, TrelloList, TrelloMember } from '../types/entities.js';
+import { escapeMarkdown } from '../utils/formatters.js';
+
+/**
+ * Render a board with its lists and the cards in each list
+ */
+export function renderBoardDocument(
+  board: TrelloBoard,
+  lists: TrelloList[],
+  cards: TrelloCard[]
+): string {
+  const lines: string[] = [];
+  lines.push(`# ${board.name}`);
+  lines.push('');
+  lines.push(`**ID:** \`${board.id}\` | **URL:** ${board.shortUrl}`);
+  if (board.desc) {
+    lines.push('');
+    lines.push(board.desc);
+  }
+
+  for (const list of lists) {
+    const listCards = cards.filter((card) => card.idList === list.id);
+    lines.push('');
+    lines.push(`## ${list.name} (${listCards.length})`);
+    lines.push('');
+
+    if (listCards.length === 0) {
+      lines.push('_No cards_');
+      continue;
+    }
+    for (const card of listCards) {
+      lines.push(`- ${formatCardLine(card)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the lists of a board with their card counts
+ */
+export function renderBoardListsDocument(
+  board: TrelloBoard,
+  lists: TrelloList[],
+  cards: TrelloCard[]
+): string {
+  const lines: string[] = [];
+  lines.push(`# Lists on ${board.name}`);
+  lines.push('');
+  lines.push('| Name | ID | Cards |');
+  lines.push('|---|---|---|');
+
+  for (const list of lists) {
+    const count = cards.filter((card) => card.idList === list.id).length;
+    lines.push(`| ${escapeMarkdown(list.name)} | \`${list.id}\` | ${count} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a card with its details, checklists and attachments
+ */
+export function renderCardDocument(
+  card: TrelloCard,
+  list: TrelloList,
+  members: TrelloMember[]
+): string {
+  const lines: string[] = [];
+  lines.push(`# ${card.name}`);
+  lines.push('');
+  lines.push(`**ID:** \`${card.id}\` | **List:** ${list.name} | **URL:** ${card.shortUrl}`);
+
+  const assigned = members.filter((member) => card.idMembers.includes(member.id));
+  if (assigned.length > 0) {
+    lines.push(`**Members:** ${assigned.map((member) => `@${member.username}`).join(', ')}`);
+  }
+  if (card.labels.length > 0) {
+    lines.push(`**Labels:** ${card.labels.map((label) => label.name || label.color).join(', ')}`);
+  }
+  if (card.start) {
+    lines.push(`**Start:** ${card.start}`);
+  }
+  if (card.due) {
+    lines.push(`**Due:** ${card.due}${card.dueComplete ? ' (complete)' : ''}`);
+  }
+  if (card.closed) {
+    lines.push('**Status:** Archived');
+  }
+
+  if (card.desc) {
+    lines.push('');
+    lines.push('## Description');
+    lines.push('');
+    lines.push(card.desc);
+  }
+
+  for (const checklist of card.checklists ?? []) {
+    const completed = checklist.checkItems.filter((item) => item.state === 'complete').length;
+    lines.push('');
+    lines.push(`## ${checklist.name} (${completed}/${checklist.checkItems.length})`);
+    lines.push('');
+    for (const item of checklist.checkItems) {
+      lines.push(`- [${item.state === 'complete' ? 'x' : ' '}] ${item.name}`);
+    }
+  }
+
+  if (card.attachments?.length) {
+    lines.push('');
+    lines.push('## Attachments');
+    lines.push('');
+    for (const attachment of card.attachments) {
+      lines.push(`- [${attachment.name}](${attachment.url}) \`${attachment.id}\``);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * One-line summary of a card for list views
+ */
+function formatCardLine(card: TrelloCard): string {
+  const details: string[] = [];
+  if (card.due) {
+    details.push(`due ${card.due.slice(0, 10)}${card.dueComplete ? ' (done)' : ''}`);
+  }
+  const labels = card.labels.map((label) => label.name || label.color).filter(Boolean);
+  if (labels.length > 0) {
+    details.push(`labels: ${labels.join(', ')}`);
+  }
+
+  const suffix = details.length > 0 ? ` — ${details.join('; ')}` : '';
+  return `**${escapeMarkdown(card.name)}** \`${card.id}\`${suffix}`;
+}
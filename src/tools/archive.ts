@@ -0,0 +1,286 @@
+/**
+ * Archive Tools
+ *
+ * MCP tools that export boards as portable JSON archive documents and
+ * restore boards from them.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { StoredArchive } from '../archive/archive-store.js';
+import { exportBoard } from '../archive/export.js';
+import { importBoard, importProgress, parseBoardArchive } from '../archive/import.js';
+import type { ImportState } from '../archive/import-state.js';
+import type { TrelloClient } from '../client.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { recordUndo } from './undo.js';
+
+/** Default number of API requests a single import call makes */
+const DEFAULT_IMPORT_OPERATIONS = 250;
+
+/** Characters of a response left for the description of an archive chunk */
+const ARCHIVE_CHUNK_OVERHEAD = 1000;
+
+/**
+ * Characters of archive text returned per export call
+ */
+function archiveChunkSize(context: ToolContext): number {
+  return Math.max(context.characterLimit - ARCHIVE_CHUNK_OVERHEAD, ARCHIVE_CHUNK_OVERHEAD);
+}
+
+/**
+ * Register all archive tools
+ */
+export function registerArchiveTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Export Board
+  // ===========================================================================
+  server.tool(
+    'trello_export_board',
+    `Export a board as a single versioned JSON archive, for backups and snapshots.
+
+The archive (format "trello-board-archive", version 1) contains the board and
+its preferences, members, labels, custom field definitions, lists and all cards
+including archived ones. Each card carries its custom field values, checklists
+with item states, comments and attachment metadata (not file contents).
+
+The archive is stored for 7 days under the returned exportId and returned as
+compact JSON in chunks that fit the server's response size limit: the first
+content item describes the chunk, the second is the archive text from offset.
+While nextOffset is not null, call again with exportId and offset: nextOffset
+and append the chunks in order. trello_import_board accepts the exportId in
+place of the archive.
+
+Args:
+  - boardId: The ID of the board to export (not needed with exportId)
+  - includeComments: Include card comments (default: true)
+  - exportId: Read a stored export instead of making a new one
+  - offset: Character offset of the chunk to return (default: 0)`,
+    {
+      boardId: z.string().optional().describe('Board ID'),
+      includeComments: z.boolean().default(true).describe('Include card comments'),
+      exportId: z.string().optional().describe('Stored export to read'),
+      offset: z.number().int().min(0).default(0).describe('Character offset of the chunk'),
+    },
+    async ({ boardId, includeComments, exportId, offset }) => {
+      try {
+        let stored: StoredArchive | null;
+        if (exportId) {
+          stored = await context.archiveStore.get(context.tenant, exportId);
+          if (!stored) {
+            throw new NotFoundError('Export', exportId);
+          }
+        } else if (boardId) {
+          const archive = await exportBoard(client, boardId, { includeComments });
+          stored = {
+            id: crypto.randomUUID(),
+            tenant: context.tenant,
+            boardId,
+            text: JSON.stringify(archive),
+            createdAt: new Date().toISOString(),
+          };
+          await context.archiveStore.put(stored);
+        } else {
+          throw new ValidationError('Give boardId to export a board, or exportId to read one');
+        }
+        if (offset > stored.text.length) {
+          throw new ValidationError(
+            `Offset ${offset} is past the end of the archive (${stored.text.length} characters)`
+          );
+        }
+
+        const chunk = stored.text.slice(offset, offset + archiveChunkSize(context));
+        const end = offset + chunk.length;
+        const nextOffset = end < stored.text.length ? end : null;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message:
+                    nextOffset === null
+                      ? `Archive characters ${offset}-${end} of ${stored.text.length}; this is the last chunk`
+                      : `Archive characters ${offset}-${end} of ${stored.text.length}. Call again with exportId and offset: ${nextOffset} for the next chunk.`,
+                  exportId: stored.id,
+                  boardId: stored.boardId,
+                  size: stored.text.length,
+                  offset,
+                  nextOffset,
+                },
+                null,
+                2
+              ),
+            },
+            { type: 'text', text: chunk },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Import Board
+  // ===========================================================================
+  server.tool(
+    'trello_import_board',
+    `Recreate a board from an archive made by trello_export_board.
+
+Creates a new board with the archive's labels, custom field definitions and
+values, lists and cards in order, checklists with item states, link
+attachments and comments (posted by you, prefixed with the original author and
+date). Archive IDs are mapped to the new IDs. Archived lists and cards are
+archived again. Members are matched to the target workspace by ID or username;
+unmatched members and uploaded files are reported as unrestored.
+
+Give either the archive document or the exportId of a stored export.
+
+Each call makes at most maxOperations requests. If the import pauses or fails,
+call again with the same archive and the returned importId to resume; steps
+that already ran are skipped.
+
+Args:
+  - archive: The archive document (JSON text or object)
+  - exportId: Import the archive stored by trello_export_board under this ID
+  - idOrganization: Workspace to create the board in
+  - name: Name of the new board (default: the archived board's name)
+  - importId: Resume this import instead of starting a new one
+  - maxOperations: Requests to make in this call (default: ${DEFAULT_IMPORT_OPERATIONS})`,
+    {
+      archive: z
+        .union([z.string(), z.record(z.string(), z.unknown())])
+        .optional()
+        .describe('Archive from trello_export_board'),
+      exportId: z.string().optional().describe('Stored export to import'),
+      idOrganization: z.string().optional().describe('Target workspace ID'),
+      name: z.string().optional().describe('New board name'),
+      importId: z.string().optional().describe('Import to resume'),
+      maxOperations: z
+        .number()
+        .int()
+        .min(10)
+        .max(1000)
+        .default(DEFAULT_IMPORT_OPERATIONS)
+        .describe('Requests to make in this call'),
+    },
+    async ({ archive: input, exportId, idOrganization, name, importId, maxOperations }) => {
+      try {
+        let document = input;
+        if (exportId) {
+          const stored = await context.archiveStore.get(context.tenant, exportId);
+          if (!stored) {
+            throw new NotFoundError('Export', exportId);
+          }
+          document = stored.text;
+        }
+        if (!document) {
+          throw new ValidationError('Give the archive document or the exportId of an export');
+        }
+        const archive = parseBoardArchive(document);
+        const source = { boardId: archive.board.id, exportedAt: archive.exportedAt };
+
+        let state: ImportState;
+        if (importId) {
+          const existing = await context.importStore.get(context.tenant, importId);
+          if (!existing) {
+            throw new NotFoundError('Import', importId);
+          }
+          if (
+            existing.source.boardId !== source.boardId ||
+            existing.source.exportedAt !== source.exportedAt
+          ) {
+            throw new ValidationError(`Import ${importId} was started from a different archive`, {
+              archive: [
+                `Expected the export of board ${existing.source.boardId} made at ${existing.source.exportedAt}`,
+              ],
+            });
+          }
+          state = existing;
+        } else {
+          const now = new Date().toISOString();
+          state = {
+            id: crypto.randomUUID(),
+            tenant: context.tenant,
+            source,
+            status: 'in_progress',
+            steps: {},
+            unrestored: [],
+            createdAt: now,
+            updatedAt: now,
+          };
+          // Saved before the first write so the import can resume if this call dies
+          await context.importStore.put(state);
+        }
+
+        const resumedComplete = state.status === 'complete';
+        const save = async (current: ImportState) => {
+          current.updatedAt = new Date().toISOString();
+          await context.importStore.put(current);
+        };
+        let error: string | undefined;
+        if (!resumedComplete) {
+          try {
+            await importBoard(client, archive, state, {
+              name,
+              idOrganization,
+              maxOperations,
+              save,
+            });
+          } catch (caught) {
+            error = caught instanceof Error ? caught.message : String(caught);
+          }
+          await save(state);
+        }
+
+        const boardId = state.steps.board;
+        let message = 'Board imported';
+        let undoId: string | undefined;
+        if (error) {
+          message = `Import stopped: ${error}. Call again with importId to resume.`;
+        } else if (state.status === 'in_progress') {
+          message = `Paused after ${maxOperations} requests. Call again with importId to continue.`;
+        } else if (!resumedComplete) {
+          undoId = await recordUndo(
+            context,
+            'trello_import_board',
+            `Imported board "${name ?? archive.board.name}"`,
+            { type: 'updateBoard', boardId, input: { closed: true } }
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: !error,
+                  message,
+                  status: error ? 'failed' : state.status,
+                  importId: state.id,
+                  boardId,
+                  progress: importProgress(archive, state),
+                  unrestored: state.unrestored,
+                  undoId,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Batch Tools
+ *
+ * MCP tools that fetch many entities in few requests through Trello's /batch endpoint.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { BATCH_LIMIT, type TrelloClient } from '../client.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+
+/** API collection for each entity type */
+const ENTITY_PATHS = {
+  board: 'boards',
+  list: 'lists',
+  card: 'cards',
+  member: 'members',
+  organization: 'organizations',
+  label: 'labels',
+  checklist: 'checklists',
+} as const;
+
+/**
+ * Register all batch tools
+ */
+export function registerBatchTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Batch Get
+  // ===========================================================================
+  server.tool(
+    'trello_batch_get',
+    `Fetch many boards, lists, cards, members, organizations, labels or checklists at once.
+
+Requests are grouped ${BATCH_LIMIT} at a time into Trello /batch calls, so fetching
+40 cards costs 4 requests instead of 40. Each reference succeeds or fails on
+its own.
+
+Args:
+  - refs: Entities to fetch, each { type, id } (max 100)
+  - format: Response format`,
+    {
+      refs: z
+        .array(
+          z.object({
+            type: z.enum(['board', 'list', 'card', 'member', 'organization', 'label', 'checklist']),
+            id: z
+              .string()
+              .regex(/^[A-Za-z0-9_-]+$/, 'IDs may only contain letters, digits, - and _')
+              .describe('Entity ID (or username/short link where Trello accepts one)'),
+          })
+        )
+        .min(1)
+        .max(100)
+        .describe('Entities to fetch'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ refs, format }) => {
+      try {
+        const results = await client.batchGet(
+          refs.map((ref) => `/${ENTITY_PATHS[ref.type]}/${ref.id}`)
+        );
+        const items = refs.map((ref, i) => {
+          const { ok, status, data, error } = results[i];
+          return { type: ref.type, id: ref.id, ok, status, ...(ok ? { data } : { error }) };
+        });
+        const failed = items.filter((item) => !item.ok).length;
+
+        return formatResponse(
+          { count: items.length, succeeded: items.length - failed, failed, items },
+          format,
+          'batchResults',
+          context.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
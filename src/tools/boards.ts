@@ -7,12 +7,32 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type { TrelloActionQuery } from '../types/entities.js';
+import {
+  formatCursorResponse,
+  formatError,
+  formatPaginatedResponse,
+  formatResponse,
+} from '../utils/formatters.js';
+import { decodeCursor, encodeCursor, paginate } from '../utils/pagination.js';
+import { confirmationParam, requireConfirmation, verifyConfirmationToken } from './confirmation.js';
+import { paginationParams, type ToolContext } from './context.js';
+import {
+  dryRunParam,
+  formatDryRun,
+  previewDeleteBoard,
+  previewRemoveBoardMember,
+} from './dry-run.js';
+import { boardInverse, recordUndo } from './undo.js';
 
 /**
  * Register all board-related tools
  */
-export function registerBoardTools(server: McpServer, client: TrelloClient): void {
+export function registerBoardTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Boards
   // ===========================================================================
@@ -24,15 +44,23 @@ Returns boards with their names, IDs, and URLs.
 
 Args:
   - filter: Filter by board status ('all', 'open', 'closed'). Default: 'open'
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
   - format: Response format ('json' or 'markdown')`,
     {
       filter: z.enum(['all', 'open', 'closed']).default('open').describe('Filter by board status'),
+      ...paginationParams(context),
       format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ filter, format }) => {
+    async ({ filter, limit, offset, format }) => {
       try {
         const boards = await client.listBoards(filter);
-        return formatResponse(boards, format, 'boards');
+        return formatPaginatedResponse(
+          paginate(boards, offset, limit),
+          format,
+          'boards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -56,7 +84,7 @@ Args:
     async ({ boardId, format }) => {
       try {
         const board = await client.getBoard(boardId);
-        return formatResponse(board, format, 'board');
+        return formatResponse(board, format, 'board', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -86,11 +114,21 @@ Args:
     async (input) => {
       try {
         const board = await client.createBoard(input);
+        const undoId = await recordUndo(
+          context,
+          'trello_create_board',
+          `Created board "${board.name}"`,
+          { type: 'updateBoard', boardId: board.id, input: { closed: true } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Board created', board }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Board created', board, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -122,12 +160,23 @@ Args:
     },
     async ({ boardId, ...input }) => {
       try {
+        const prior = await client.getBoard(boardId);
         const board = await client.updateBoard(boardId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_board',
+          `Updated ${Object.keys(input).join(', ')} of board "${prior.name}"`,
+          { type: 'updateBoard', boardId, input: boardInverse(prior, input) }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Board updated', board }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Board updated', board, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -146,13 +195,28 @@ Args:
 
 WARNING: This action cannot be undone!
 
+Requires confirmation: the first call returns an impact summary and a
+confirmationToken; call again with the token within 5 minutes to delete.
+
 Args:
-  - boardId: The ID of the board to delete`,
+  - boardId: The ID of the board to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)
+  - confirmationToken: Token from the first call`,
     {
       boardId: z.string().describe('Board ID to delete'),
+      dryRun: dryRunParam(context),
+      confirmationToken: confirmationParam(),
     },
-    async ({ boardId }) => {
+    async ({ boardId, dryRun, confirmationToken }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteBoard(client, boardId));
+        }
+        if (!confirmationToken) {
+          const preview = await previewDeleteBoard(client, boardId);
+          return requireConfirmation(context, 'trello_delete_board', boardId, preview);
+        }
+        await verifyConfirmationToken(context, confirmationToken, 'trello_delete_board', boardId);
         await client.deleteBoard(boardId);
         return {
           content: [
@@ -187,7 +251,7 @@ Args:
     async ({ boardId, filter, format }) => {
       try {
         const lists = await client.getBoardLists(boardId, filter);
-        return formatResponse(lists, format, 'lists');
+        return formatResponse(lists, format, 'lists', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -204,16 +268,25 @@ Args:
 Args:
   - boardId: The ID of the board
   - filter: Filter by card status ('all', 'open', 'closed')
-  - format: Response format`,
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
+  - format: Response format ('json', 'markdown' or 'csv'). CSV has list and member IDs and
+    no custom field columns; use trello_export_cards_csv for names and custom fields`,
     {
       boardId: z.string().describe('Board ID'),
       filter: z.enum(['all', 'open', 'closed']).default('open').describe('Filter by status'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      ...paginationParams(context),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ boardId, filter, format }) => {
+    async ({ boardId, filter, limit, offset, format }) => {
       try {
         const cards = await client.getBoardCards(boardId, filter);
-        return formatResponse(cards, format, 'cards');
+        return formatPaginatedResponse(
+          paginate(cards, offset, limit),
+          format,
+          'cards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -237,7 +310,7 @@ Args:
     async ({ boardId, format }) => {
       try {
         const members = await client.getBoardMembers(boardId);
-        return formatResponse(members, format, 'members');
+        return formatResponse(members, format, 'members', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -261,7 +334,7 @@ Args:
     async ({ boardId, format }) => {
       try {
         const labels = await client.getBoardLabels(boardId);
-        return formatResponse(labels, format, 'labels');
+        return formatResponse(labels, format, 'labels', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -273,21 +346,40 @@ Args:
   // ===========================================================================
   server.tool(
     'trello_get_board_actions',
-    `Get recent activity on a board.
+    `Get activity on a board, newest first.
+
+Walk the full history by passing the returned nextCursor back as cursor until
+it is null. A cursor keeps the since/filter values of the call that produced it.
 
 Args:
   - boardId: The ID of the board
-  - limit: Maximum number of actions to return (default: 50)
+  - limit: Maximum number of actions per page (default: 50)
+  - before: Only actions before this action ID or ISO 8601 date
+  - since: Only actions after this action ID or ISO 8601 date
+  - filter: Action types to include (e.g. commentCard, updateCard, createCard)
+  - cursor: nextCursor from a previous call, to fetch the next page
   - format: Response format`,
     {
       boardId: z.string().describe('Board ID'),
-      limit: z.number().int().min(1).max(1000).default(50).describe('Max actions to return'),
+      limit: z.number().int().min(1).max(1000).default(50).describe('Max actions per page'),
+      before: z.string().optional().describe('Only actions before this action ID or date'),
+      since: z.string().optional().describe('Only actions after this action ID or date'),
+      filter: z.array(z.string()).optional().describe('Action types to include'),
+      cursor: z.string().optional().describe('nextCursor from a previous call'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ boardId, limit, format }) => {
+    async ({ boardId, limit, before, since, filter, cursor, format }) => {
       try {
-        const actions = await client.getBoardActions(boardId, limit);
-        return formatResponse(actions, format, 'actions');
+        const query = cursor ? decodeCursor<TrelloActionQuery>(cursor) : { before, since, filter };
+        const actions = await client.getBoardActions(boardId, { ...query, limit });
+        return formatCursorResponse(
+          actions,
+          actions.length === limit,
+          (last) => encodeCursor({ ...query, before: last.id }),
+          format,
+          'actions',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -336,13 +428,18 @@ Args:
 
 Args:
   - boardId: The ID of the board
-  - memberId: The ID of the member to remove`,
+  - memberId: The ID of the member to remove
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       boardId: z.string().describe('Board ID'),
       memberId: z.string().describe('Member ID to remove'),
+      dryRun: dryRunParam(context),
     },
-    async ({ boardId, memberId }) => {
+    async ({ boardId, memberId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewRemoveBoardMember(client, boardId, memberId));
+        }
         await client.removeMemberFromBoard(boardId, memberId);
         return {
           content: [
@@ -375,7 +472,7 @@ Args:
     async ({ boardId, format }) => {
       try {
         const customFields = await client.getBoardCustomFields(boardId);
-        return formatResponse(customFields, format, 'customFields');
+        return formatResponse(customFields, format, 'customFields', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
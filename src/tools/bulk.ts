@@ -0,0 +1,266 @@
+/**
+ * Bulk Tools
+ *
+ * MCP tools that apply one change to many cards, reporting the outcome for
+ * each card instead of stopping at the first failure.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { TrelloClient } from '../client.js';
+import type { TrelloCard, TrelloCardUpdateInput } from '../types/entities.js';
+import type { InverseOperation } from '../undo/journal.js';
+import { parseCardQuery } from '../utils/card-query.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { dryRunParam } from './dry-run.js';
+import { queryBoardCards } from './search.js';
+import { cardInverse, recordUndo } from './undo.js';
+
+/** Largest number of cards a single bulk call may touch */
+const MAX_BULK_CARDS = 500;
+
+/** Card IDs accepted by cardIds, the same as trello_batch_get accepts */
+const CARD_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface BulkCardChange {
+  idList?: string;
+  idBoard?: string;
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+  addMemberIds?: string[];
+  removeMemberIds?: string[];
+  due?: string | null;
+  dueComplete?: boolean;
+  archive?: boolean;
+}
+
+interface BulkCardResult {
+  cardId: string;
+  name?: string;
+  status: 'updated' | 'unchanged' | 'planned' | 'failed';
+  /** Fields that were (or would be) changed */
+  changes: string[];
+  error?: string;
+}
+
+/**
+ * Work out the update a card needs for a change, skipping fields that
+ * already have the target value
+ */
+function planCardUpdate(card: TrelloCard, change: BulkCardChange): TrelloCardUpdateInput {
+  const update: TrelloCardUpdateInput = {};
+
+  if (change.idList && change.idList !== card.idList) {
+    update.idList = change.idList;
+    if (change.idBoard && change.idBoard !== card.idBoard) update.idBoard = change.idBoard;
+  }
+
+  const applySet = (current: string[], add: string[] = [], remove: string[] = []) => {
+    const next = [
+      ...current.filter((id) => !remove.includes(id)),
+      ...add.filter((id) => !current.includes(id)),
+    ];
+    const changed = next.length !== current.length || next.some((id) => !current.includes(id));
+    return changed ? next : undefined;
+  };
+  const idLabels = applySet(card.idLabels, change.addLabelIds, change.removeLabelIds);
+  if (idLabels) update.idLabels = idLabels;
+  const idMembers = applySet(card.idMembers, change.addMemberIds, change.removeMemberIds);
+  if (idMembers) update.idMembers = idMembers;
+
+  if (change.due !== undefined && !sameDate(change.due, card.due)) update.due = change.due;
+  if (change.dueComplete !== undefined && change.dueComplete !== card.dueComplete) {
+    update.dueComplete = change.dueComplete;
+  }
+  if (change.archive !== undefined && change.archive !== card.closed) {
+    update.closed = change.archive;
+  }
+
+  return update;
+}
+
+function sameDate(a: string | null, b: string | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Date.parse(a) === Date.parse(b);
+}
+
+/**
+ * Register all bulk tools
+ */
+export function registerBulkTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Bulk Update Cards
+  // ===========================================================================
+  server.tool(
+    'trello_bulk_update_cards',
+    `Apply the same change to many cards, selected by ID or by a filter expression.
+
+Each card gets at most one update request. Cards that already match the change
+are reported as unchanged, and a failure on one card does not stop the others.
+Use dryRun to see what would change without updating anything, and pass the
+returned undoId to trello_undo to restore the cards.
+
+Args:
+  - cardIds: Cards to update
+  - filter: Instead of cardIds, update cards matching a trello_query_cards expression
+    - boardIds: Boards to search
+    - where: Filter expression, e.g. label:Bug AND list:"In Review"
+  - idList: Move cards to this list
+  - idBoard: Board of idList, when moving cards to another board
+  - addLabelIds / removeLabelIds: Labels to add or remove
+  - addMemberIds / removeMemberIds: Members to assign or unassign
+  - due: Due date (ISO 8601), or null to clear it
+  - dueComplete: Mark the due date complete or incomplete
+  - archive: true to archive, false to unarchive
+  - concurrency: Cards updated in parallel (default: 5)
+  - dryRun: Only report the planned changes (default: false, or the X-Trello-Dry-Run header)`,
+    {
+      cardIds: z.array(z.string()).min(1).max(MAX_BULK_CARDS).optional().describe('Card IDs'),
+      filter: z
+        .object({
+          boardIds: z.array(z.string()).min(1).describe('Board IDs'),
+          where: z.string().describe('Filter expression'),
+        })
+        .optional()
+        .describe('Select cards by filter'),
+      idList: z.string().optional().describe('Destination list ID'),
+      idBoard: z.string().optional().describe('Destination board ID'),
+      addLabelIds: z.array(z.string()).optional().describe('Label IDs to add'),
+      removeLabelIds: z.array(z.string()).optional().describe('Label IDs to remove'),
+      addMemberIds: z.array(z.string()).optional().describe('Member IDs to assign'),
+      removeMemberIds: z.array(z.string()).optional().describe('Member IDs to unassign'),
+      due: z.string().nullable().optional().describe('Due date (ISO 8601) or null'),
+      dueComplete: z.boolean().optional().describe('Due date complete'),
+      archive: z.boolean().optional().describe('Archive (true) or unarchive (false)'),
+      concurrency: z.number().int().min(1).max(10).default(5).describe('Parallel updates'),
+      dryRun: dryRunParam(context),
+    },
+    async ({ cardIds, filter, concurrency, dryRun, ...change }) => {
+      try {
+        if (Boolean(cardIds) === Boolean(filter)) {
+          throw new ValidationError('Provide either cardIds or filter', {
+            cardIds: ['Exactly one of cardIds and filter is required'],
+          });
+        }
+        if (Object.values(change).every((value) => value === undefined)) {
+          throw new ValidationError('No change given', {
+            change: ['Set at least one of idList, labels, members, due, dueComplete or archive'],
+          });
+        }
+
+        // Load current card state so each card only gets the changes it needs
+        const results: BulkCardResult[] = [];
+        const cards: TrelloCard[] = [];
+        if (filter) {
+          // Archived cards are only candidates when unarchiving
+          const predicate = parseCardQuery(filter.where);
+          const includeArchived = change.archive === false;
+          cards.push(
+            ...(await queryBoardCards(client, filter.boardIds, predicate, includeArchived))
+          );
+          if (cards.length > MAX_BULK_CARDS) {
+            throw new ValidationError(
+              `Filter matches ${cards.length} cards; narrow it to at most ${MAX_BULK_CARDS}`
+            );
+          }
+        } else if (cardIds) {
+          // IDs become /batch routes, where a comma or query character adds or rewrites routes
+          const invalid = cardIds.filter((id) => !CARD_ID_PATTERN.test(id));
+          if (invalid.length > 0) {
+            throw new ValidationError('Invalid card IDs', {
+              cardIds: invalid.map((id) => `"${id}" may only contain letters, digits, - and _`),
+            });
+          }
+          const fetched = await client.batchGet<TrelloCard>(cardIds.map((id) => `/cards/${id}`));
+          fetched.forEach((result, i) => {
+            if (result.ok && result.data) {
+              cards.push(result.data);
+            } else {
+              results.push({
+                cardId: cardIds[i],
+                status: 'failed',
+                changes: [],
+                error: result.error,
+              });
+            }
+          });
+        }
+
+        const inverses: InverseOperation[] = [];
+        const outcomes = await mapWithConcurrency(cards, concurrency, async (card) => {
+          const update = planCardUpdate(card, change);
+          const changes = Object.keys(update);
+          if (changes.length > 0 && !dryRun) {
+            await client.updateCard(card.id, update);
+            inverses.push({
+              type: 'updateCard',
+              cardId: card.id,
+              input: cardInverse(card, update),
+            });
+          }
+          const status = changes.length === 0 ? 'unchanged' : dryRun ? 'planned' : 'updated';
+          return { cardId: card.id, name: card.name, status, changes } as BulkCardResult;
+        });
+
+        outcomes.forEach((outcome, i) => {
+          results.push(
+            outcome.ok
+              ? outcome.value
+              : {
+                  cardId: cards[i].id,
+                  name: cards[i].name,
+                  status: 'failed',
+                  changes: Object.keys(planCardUpdate(cards[i], change)),
+                  error:
+                    outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+                }
+          );
+        });
+
+        const count = (status: BulkCardResult['status']) =>
+          results.filter((result) => result.status === status).length;
+        const summary = {
+          total: results.length,
+          updated: count('updated'),
+          planned: count('planned'),
+          unchanged: count('unchanged'),
+          failed: count('failed'),
+        };
+        const undoId =
+          inverses.length > 0
+            ? await recordUndo(
+                context,
+                'trello_bulk_update_cards',
+                `Bulk updated ${inverses.length} cards`,
+                { type: 'sequence', operations: inverses }
+              )
+            : undefined;
+
+        return formatResponse(
+          {
+            success: summary.failed === 0,
+            message: dryRun
+              ? `Dry run: ${summary.planned} of ${summary.total} cards would change`
+              : `Updated ${summary.updated} of ${summary.total} cards`,
+            dryRun,
+            summary,
+            undoId,
+            results,
+          },
+          'json',
+          'bulkResults',
+          context.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -7,12 +7,87 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type { TrelloAction, TrelloActionQuery } from '../types/entities.js';
+import { encodeBase64 } from '../utils/encoding.js';
+import { ForbiddenError, ValidationError } from '../utils/errors.js';
+import {
+  formatCursorResponse,
+  formatError,
+  formatPaginatedResponse,
+  formatResponse,
+  truncateText,
+} from '../utils/formatters.js';
+import { decodeCursor, encodeCursor, paginate } from '../utils/pagination.js';
+import { paginationParams, type ToolContext } from './context.js';
+import {
+  dryRunParam,
+  formatDryRun,
+  previewArchiveCard,
+  previewDeleteAttachment,
+  previewDeleteCard,
+} from './dry-run.js';
+import { cardInverse, customFieldValueInverse, recordUndo } from './undo.js';
+
+/** Largest attachment trello_read_attachment will download */
+const MAX_ATTACHMENT_READ_BYTES = 5 * 1024 * 1024;
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml'];
+const TEXT_EXTENSIONS = ['.txt', '.md', '.markdown', '.json', '.csv', '.tsv', '.yaml', '.yml', '.xml', '.log'];
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * Decide how attachment content can be returned to the model
+ */
+function classifyAttachment(mimeType: string, fileName: string): 'text' | 'image' | 'binary' {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  const name = fileName.toLowerCase();
+  if (IMAGE_MIME_TYPES.includes(type)) return 'image';
+  if (type.startsWith('text/') || TEXT_MIME_TYPES.includes(type)) return 'text';
+  if (TEXT_EXTENSIONS.some((extension) => name.endsWith(extension))) return 'text';
+  return 'binary';
+}
+
+/**
+ * Fetch a comment and check that it is on the given card and was written by
+ * the member that owns the current token
+ */
+async function getOwnComment(
+  client: TrelloClient,
+  cardId: string,
+  actionId: string
+): Promise<TrelloAction> {
+  const [action, me] = await Promise.all([client.getAction(actionId), client.getMe()]);
+
+  if (action.type !== 'commentCard') {
+    throw new ValidationError(`Action ${actionId} is not a comment`, {
+      actionId: [`Expected a commentCard action, got ${action.type}`],
+    });
+  }
+
+  const card = action.data.card;
+  if (!card || (card.id !== cardId && card.shortLink !== cardId)) {
+    throw new ValidationError(`Comment ${actionId} does not belong to card ${cardId}`, {
+      cardId: [`The comment is on card ${card?.id ?? 'unknown'}`],
+    });
+  }
+
+  if (action.idMemberCreator !== me.id) {
+    throw new ForbiddenError(
+      `Comment ${actionId} was written by another member and cannot be modified with this token`
+    );
+  }
+
+  return action;
+}
 
 /**
  * Register all card-related tools
  */
-export function registerCardTools(server: McpServer, client: TrelloClient): void {
+export function registerCardTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Card
   // ===========================================================================
@@ -30,7 +105,7 @@ Args:
     async ({ cardId, format }) => {
       try {
         const card = await client.getCard(cardId);
-        return formatResponse(card, format, 'card');
+        return formatResponse(card, format, 'card', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -66,11 +141,21 @@ Args:
     async (input) => {
       try {
         const card = await client.createCard(input);
+        const undoId = await recordUndo(
+          context,
+          'trello_create_card',
+          `Created card "${card.name}"`,
+          { type: 'updateCard', cardId: card.id, input: { closed: true } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Card created', card }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Card created', card, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -95,7 +180,11 @@ Args:
   - idList: Move to a different list
   - pos: New position
   - due: New due date (ISO 8601 format, or null to remove)
-  - dueComplete: Mark due date as complete`,
+  - start: New start date (ISO 8601 format, or null to remove)
+  - dueComplete: Mark due date as complete
+  - idMembers: Replace the assigned members (empty array removes all)
+  - idLabels: Replace the labels (empty array removes all)
+  - cover: Set the cover color, size and brightness, or an attachment as cover`,
     {
       cardId: z.string().describe('Card ID to update'),
       name: z.string().optional().describe('New name'),
@@ -104,16 +193,42 @@ Args:
       idList: z.string().optional().describe('Move to list ID'),
       pos: z.union([z.enum(['top', 'bottom']), z.number()]).optional().describe('New position'),
       due: z.string().nullable().optional().describe('Due date or null'),
+      start: z.string().nullable().optional().describe('Start date or null'),
       dueComplete: z.boolean().optional().describe('Mark due complete'),
+      idMembers: z.array(z.string()).optional().describe('Member IDs (replaces existing)'),
+      idLabels: z.array(z.string()).optional().describe('Label IDs (replaces existing)'),
+      cover: z
+        .object({
+          color: z
+            .enum(['pink', 'yellow', 'lime', 'blue', 'black', 'orange', 'red', 'purple', 'sky', 'green'])
+            .optional()
+            .describe('Cover color'),
+          size: z.enum(['normal', 'full']).optional().describe('Cover size'),
+          brightness: z.enum(['light', 'dark']).optional().describe('Text brightness on full covers'),
+          idAttachment: z.string().optional().describe('Image attachment ID to use as cover'),
+        })
+        .optional()
+        .describe('Card cover'),
     },
     async ({ cardId, ...input }) => {
       try {
+        const prior = await client.getCard(cardId);
         const card = await client.updateCard(cardId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_card',
+          `Updated ${Object.keys(input).join(', ')} of card "${prior.name}"`,
+          { type: 'updateCard', cardId, input: cardInverse(prior, input) }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Card updated', card }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Card updated', card, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -133,12 +248,17 @@ Args:
 WARNING: This action cannot be undone!
 
 Args:
-  - cardId: The ID of the card to delete`,
+  - cardId: The ID of the card to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       cardId: z.string().describe('Card ID to delete'),
+      dryRun: dryRunParam(context),
     },
-    async ({ cardId }) => {
+    async ({ cardId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteCard(client, cardId));
+        }
         await client.deleteCard(cardId);
         return {
           content: [
@@ -162,18 +282,33 @@ Args:
     `Archive a card.
 
 Args:
-  - cardId: The ID of the card to archive`,
+  - cardId: The ID of the card to archive
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       cardId: z.string().describe('Card ID to archive'),
+      dryRun: dryRunParam(context),
     },
-    async ({ cardId }) => {
+    async ({ cardId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewArchiveCard(client, cardId));
+        }
         const card = await client.archiveCard(cardId);
+        const undoId = await recordUndo(
+          context,
+          'trello_archive_card',
+          `Archived card "${card.name}"`,
+          { type: 'updateCard', cardId, input: { closed: false } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Card archived', card }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Card archived', card, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -198,11 +333,21 @@ Args:
     async ({ cardId }) => {
       try {
         const card = await client.unarchiveCard(cardId);
+        const undoId = await recordUndo(
+          context,
+          'trello_unarchive_card',
+          `Unarchived card "${card.name}"`,
+          { type: 'updateCard', cardId, input: { closed: true } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Card unarchived', card }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Card unarchived', card, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -230,12 +375,23 @@ Args:
     },
     async ({ cardId, idList, idBoard }) => {
       try {
+        const prior = await client.getCard(cardId);
         const card = await client.moveCard(cardId, idList, idBoard);
+        const undoId = await recordUndo(
+          context,
+          'trello_move_card',
+          `Moved card "${prior.name}" from list ${prior.idList} to list ${idList}`,
+          { type: 'updateCard', cardId, input: cardInverse(prior, { idList, idBoard }) }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Card moved', card }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Card moved', card, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -262,11 +418,21 @@ Args:
     async ({ cardId, text }) => {
       try {
         const comment = await client.addCommentToCard(cardId, text);
+        const undoId = await recordUndo(
+          context,
+          'trello_add_comment',
+          `Commented on card ${cardId}`,
+          { type: 'deleteComment', cardId, actionId: comment.id }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Comment added', comment }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Comment added', comment, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -285,15 +451,159 @@ Args:
 
 Args:
   - cardId: The ID of the card
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
   - format: Response format`,
     {
       cardId: z.string().describe('Card ID'),
+      ...paginationParams(context),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ cardId, format }) => {
+    async ({ cardId, limit, offset, format }) => {
       try {
         const comments = await client.getCardComments(cardId);
-        return formatResponse(comments, format, 'comments');
+        return formatPaginatedResponse(
+          paginate(comments, offset, limit),
+          format,
+          'comments',
+          context.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Update Comment
+  // ===========================================================================
+  server.tool(
+    'trello_update_comment',
+    `Edit a comment on a card.
+
+Only comments written by the member that owns the current token can be edited.
+
+Args:
+  - cardId: The ID of the card the comment is on
+  - actionId: The ID of the comment action
+  - text: New comment text`,
+    {
+      cardId: z.string().describe('Card ID'),
+      actionId: z.string().describe('Comment action ID'),
+      text: z.string().describe('New comment text'),
+    },
+    async ({ cardId, actionId, text }) => {
+      try {
+        const prior = await getOwnComment(client, cardId, actionId);
+        const comment = await client.updateComment(cardId, actionId, text);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_comment',
+          `Edited comment ${actionId} on card ${cardId}`,
+          { type: 'updateComment', cardId, actionId, text: prior.data.text ?? '' }
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: 'Comment updated', comment, undoId },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Delete Comment
+  // ===========================================================================
+  server.tool(
+    'trello_delete_comment',
+    `Delete a comment from a card.
+
+Only comments written by the member that owns the current token can be deleted.
+
+Args:
+  - cardId: The ID of the card the comment is on
+  - actionId: The ID of the comment action
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
+    {
+      cardId: z.string().describe('Card ID'),
+      actionId: z.string().describe('Comment action ID'),
+      dryRun: dryRunParam(context),
+    },
+    async ({ cardId, actionId, dryRun }) => {
+      try {
+        const comment = await getOwnComment(client, cardId, actionId);
+        if (dryRun) {
+          const text = truncateText(comment.data.text ?? '', 200);
+          return formatDryRun({
+            action: 'Delete comment',
+            target: { type: 'comment', id: comment.id },
+            affected: { comments: 1 },
+            effects: [`Permanently delete comment on card "${comment.data.card?.name}": ${text}`],
+          });
+        }
+        await client.deleteComment(cardId, actionId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, message: 'Comment deleted' }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Card Actions (History)
+  // ===========================================================================
+  server.tool(
+    'trello_get_card_actions',
+    `Get the activity history of a card, newest first.
+
+Walk the full history by passing the returned nextCursor back as cursor until
+it is null. A cursor keeps the since/filter values of the call that produced it.
+
+Args:
+  - cardId: The ID of the card
+  - limit: Maximum number of actions per page (default: 50)
+  - before: Only actions before this action ID or ISO 8601 date
+  - since: Only actions after this action ID or ISO 8601 date
+  - filter: Action types to include (e.g. commentCard, updateCard, addMemberToCard)
+  - cursor: nextCursor from a previous call, to fetch the next page
+  - format: Response format`,
+    {
+      cardId: z.string().describe('Card ID'),
+      limit: z.number().int().min(1).max(1000).default(50).describe('Max actions per page'),
+      before: z.string().optional().describe('Only actions before this action ID or date'),
+      since: z.string().optional().describe('Only actions after this action ID or date'),
+      filter: z.array(z.string()).optional().describe('Action types to include'),
+      cursor: z.string().optional().describe('nextCursor from a previous call'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ cardId, limit, before, since, filter, cursor, format }) => {
+      try {
+        const query = cursor ? decodeCursor<TrelloActionQuery>(cursor) : { before, since, filter };
+        const actions = await client.getCardActions(cardId, { ...query, limit });
+        return formatCursorResponse(
+          actions,
+          actions.length === limit,
+          (last) => encodeCursor({ ...query, before: last.id }),
+          format,
+          'actions',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -317,11 +627,21 @@ Args:
     async ({ cardId, labelId }) => {
       try {
         await client.addLabelToCard(cardId, labelId);
+        const undoId = await recordUndo(
+          context,
+          'trello_add_label_to_card',
+          `Added label ${labelId} to card ${cardId}`,
+          { type: 'removeLabelFromCard', cardId, labelId }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Label added to card' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Label added to card', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -348,11 +668,21 @@ Args:
     async ({ cardId, labelId }) => {
       try {
         await client.removeLabelFromCard(cardId, labelId);
+        const undoId = await recordUndo(
+          context,
+          'trello_remove_label_from_card',
+          `Removed label ${labelId} from card ${cardId}`,
+          { type: 'addLabelToCard', cardId, labelId }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Label removed from card' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Label removed from card', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -379,11 +709,21 @@ Args:
     async ({ cardId, memberId }) => {
       try {
         await client.addMemberToCard(cardId, memberId);
+        const undoId = await recordUndo(
+          context,
+          'trello_add_member_to_card',
+          `Added member ${memberId} to card ${cardId}`,
+          { type: 'removeMemberFromCard', cardId, memberId }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Member added to card' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Member added to card', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -410,11 +750,21 @@ Args:
     async ({ cardId, memberId }) => {
       try {
         await client.removeMemberFromCard(cardId, memberId);
+        const undoId = await recordUndo(
+          context,
+          'trello_remove_member_from_card',
+          `Removed member ${memberId} from card ${cardId}`,
+          { type: 'addMemberToCard', cardId, memberId }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Member removed from card' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Member removed from card', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -441,7 +791,94 @@ Args:
     async ({ cardId, format }) => {
       try {
         const attachments = await client.getCardAttachments(cardId);
-        return formatResponse(attachments, format, 'attachments');
+        return formatResponse(attachments, format, 'attachments', context.characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Read Attachment
+  // ===========================================================================
+  server.tool(
+    'trello_read_attachment',
+    `Read the content of a file uploaded to a card.
+
+Text files (plain text, Markdown, JSON, CSV, etc.) are returned as text,
+images as image content. Other files and link attachments return a summary.
+Files larger than 5MB are not downloaded, and images whose encoded size is
+over the server's response size limit are summarized instead.
+
+Args:
+  - cardId: The ID of the card
+  - attachmentId: The ID of the attachment`,
+    {
+      cardId: z.string().describe('Card ID'),
+      attachmentId: z.string().describe('Attachment ID'),
+    },
+    async ({ cardId, attachmentId }) => {
+      try {
+        const attachment = await client.getAttachment(cardId, attachmentId);
+        const kind = classifyAttachment(attachment.mimeType || '', attachment.fileName || attachment.name);
+        const summary = {
+          id: attachment.id,
+          name: attachment.name,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          bytes: attachment.bytes,
+          url: attachment.url,
+        };
+
+        const unreadable = (reason: string) => ({
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ ...summary, content: null, reason }, null, 2),
+            },
+          ],
+        });
+
+        if (!attachment.isUpload) {
+          return unreadable('Link attachment; the content is hosted elsewhere');
+        }
+        if (kind === 'binary') {
+          return unreadable('Binary file; only text files and images can be read');
+        }
+        if (attachment.bytes !== null && attachment.bytes > MAX_ATTACHMENT_READ_BYTES) {
+          return unreadable(`File is larger than ${MAX_ATTACHMENT_READ_BYTES} bytes`);
+        }
+
+        const data = new Uint8Array(
+          await client.downloadAttachment(attachment, MAX_ATTACHMENT_READ_BYTES)
+        );
+
+        if (kind === 'image') {
+          const encoded = encodeBase64(data);
+          if (encoded.length > context.characterLimit) {
+            return unreadable(
+              `Image is ${encoded.length} characters encoded, over the ${context.characterLimit} character response limit`
+            );
+          }
+          return {
+            content: [
+              { type: 'text' as const, text: JSON.stringify(summary, null, 2) },
+              {
+                type: 'image' as const,
+                data: encoded,
+                mimeType: attachment.mimeType,
+              },
+            ],
+          };
+        }
+
+        const header = `# ${attachment.fileName || attachment.name}\n\n_${attachment.mimeType}, ${data.byteLength} bytes_\n\n`;
+        const text = new TextDecoder().decode(data);
+        return {
+          content: [
+            { type: 'text' as const, text: truncateText(header + text, context.characterLimit) },
+          ],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -453,27 +890,53 @@ Args:
   // ===========================================================================
   server.tool(
     'trello_add_attachment',
-    `Add an attachment to a card via URL.
+    `Add an attachment to a card, either by URL or by uploading file content.
+
+Provide exactly one of url or file. Uploads are limited to 10MB, or 250MB on
+boards in paid workspaces.
 
 Args:
   - cardId: The ID of the card
   - url: URL of the attachment
+  - file: Base64-encoded file content to upload
+  - fileName: File name for the upload (e.g. "report.pdf")
+  - mimeType: MIME type of the upload (e.g. "application/pdf")
   - name: Name for the attachment (optional)
   - setCover: Set as card cover (optional)`,
     {
       cardId: z.string().describe('Card ID'),
-      url: z.string().url().describe('Attachment URL'),
+      url: z.string().url().optional().describe('Attachment URL'),
+      file: z.string().optional().describe('Base64-encoded file content'),
+      fileName: z.string().optional().describe('File name for the upload'),
+      mimeType: z.string().optional().describe('MIME type of the upload'),
       name: z.string().optional().describe('Attachment name'),
       setCover: z.boolean().optional().describe('Set as cover'),
     },
-    async ({ cardId, url, name, setCover }) => {
+    async ({ cardId, ...input }) => {
       try {
-        const attachment = await client.addAttachmentToCard(cardId, { url, name, setCover });
+        if (!input.url === !input.file) {
+          throw new ValidationError('Provide exactly one of url or file', {
+            url: ['Set url to attach a link'],
+            file: ['Set file to upload base64-encoded content'],
+          });
+        }
+
+        const attachment = await client.addAttachmentToCard(cardId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_add_attachment',
+          `Added attachment "${attachment.name}" to card ${cardId}`,
+          { type: 'deleteAttachment', cardId, attachmentId: attachment.id }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Attachment added', attachment }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Attachment added', attachment, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -492,13 +955,18 @@ Args:
 
 Args:
   - cardId: The ID of the card
-  - attachmentId: The ID of the attachment to delete`,
+  - attachmentId: The ID of the attachment to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       cardId: z.string().describe('Card ID'),
       attachmentId: z.string().describe('Attachment ID to delete'),
+      dryRun: dryRunParam(context),
     },
-    async ({ cardId, attachmentId }) => {
+    async ({ cardId, attachmentId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteAttachment(client, cardId, attachmentId));
+        }
         await client.deleteAttachment(cardId, attachmentId);
         return {
           content: [
@@ -531,7 +999,7 @@ Args:
     async ({ cardId, format }) => {
       try {
         const items = await client.getCardCustomFieldItems(cardId);
-        return formatResponse(items, format, 'customFieldItems');
+        return formatResponse(items, format, 'customFieldItems', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -556,12 +1024,28 @@ Args:
     },
     async ({ cardId, customFieldId, value }) => {
       try {
+        const items = await client.getCardCustomFieldItems(cardId);
         await client.setCardCustomFieldValue(cardId, customFieldId, value);
+        const undoId = await recordUndo(
+          context,
+          'trello_set_card_custom_field',
+          `Set custom field ${customFieldId} on card ${cardId}`,
+          {
+            type: 'setCardCustomField',
+            cardId,
+            customFieldId,
+            value: customFieldValueInverse(items, customFieldId),
+          }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Custom field value set' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Custom field value set', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -7,12 +7,25 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
+import { NotFoundError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import {
+  dryRunParam,
+  formatDryRun,
+  previewDeleteCheckItem,
+  previewDeleteChecklist,
+} from './dry-run.js';
+import { checkItemInverse, recordUndo } from './undo.js';
 
 /**
  * Register all checklist-related tools
  */
-export function registerChecklistTools(server: McpServer, client: TrelloClient): void {
+export function registerChecklistTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Checklist
   // ===========================================================================
@@ -30,7 +43,7 @@ Args:
     async ({ checklistId, format }) => {
       try {
         const checklist = await client.getChecklist(checklistId);
-        return formatResponse(checklist, format, 'checklist');
+        return formatResponse(checklist, format, 'checklist', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -56,11 +69,21 @@ Args:
     async (input) => {
       try {
         const checklist = await client.createChecklist(input);
+        const undoId = await recordUndo(
+          context,
+          'trello_create_checklist',
+          `Created checklist "${checklist.name}" on card ${input.idCard}`,
+          { type: 'deleteChecklist', checklistId: checklist.id }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Checklist created', checklist }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Checklist created', checklist, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -86,12 +109,23 @@ Args:
     },
     async ({ checklistId, name }) => {
       try {
+        const prior = await client.getChecklist(checklistId);
         const checklist = await client.updateChecklist(checklistId, name);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_checklist',
+          `Renamed checklist "${prior.name}" to "${name}"`,
+          { type: 'updateChecklist', checklistId, name: prior.name }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Checklist updated', checklist }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Checklist updated', checklist, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -109,12 +143,17 @@ Args:
     `Delete a checklist from a card.
 
 Args:
-  - checklistId: The ID of the checklist to delete`,
+  - checklistId: The ID of the checklist to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       checklistId: z.string().describe('Checklist ID'),
+      dryRun: dryRunParam(context),
     },
-    async ({ checklistId }) => {
+    async ({ checklistId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteChecklist(client, checklistId));
+        }
         await client.deleteChecklist(checklistId);
         return {
           content: [
@@ -147,7 +186,7 @@ Args:
     async ({ cardId, format }) => {
       try {
         const checklists = await client.getCardChecklists(cardId);
-        return formatResponse(checklists, format, 'checklists');
+        return formatResponse(checklists, format, 'checklists', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -175,11 +214,21 @@ Args:
     async ({ checklistId, ...input }) => {
       try {
         const checkItem = await client.createCheckItem(checklistId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_create_check_item',
+          `Created check item "${checkItem.name}"`,
+          { type: 'deleteCheckItem', checklistId, checkItemId: checkItem.id }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Check item created', checkItem }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Check item created', checkItem, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -211,12 +260,29 @@ Args:
     },
     async ({ cardId, checkItemId, ...input }) => {
       try {
+        const card = await client.getCard(cardId);
+        const prior = card.checklists
+          ?.flatMap((checklist) => checklist.checkItems)
+          .find((item) => item.id === checkItemId);
+        if (!prior) {
+          throw new NotFoundError('Check item', checkItemId);
+        }
         const checkItem = await client.updateCheckItem(cardId, checkItemId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_check_item',
+          `Updated ${Object.keys(input).join(', ')} of check item "${prior.name}"`,
+          { type: 'updateCheckItem', cardId, checkItemId, input: checkItemInverse(prior, input) }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Check item updated', checkItem }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Check item updated', checkItem, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -235,13 +301,18 @@ Args:
 
 Args:
   - checklistId: ID of the checklist
-  - checkItemId: ID of the check item to delete`,
+  - checkItemId: ID of the check item to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       checklistId: z.string().describe('Checklist ID'),
       checkItemId: z.string().describe('Check item ID'),
+      dryRun: dryRunParam(context),
     },
-    async ({ checklistId, checkItemId }) => {
+    async ({ checklistId, checkItemId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteCheckItem(client, checklistId, checkItemId));
+        }
         await client.deleteCheckItem(checklistId, checkItemId);
         return {
           content: [
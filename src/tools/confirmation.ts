@@ -0,0 +1,126 @@
+/**
+ * Confirmation Tokens
+ *
+ * Two-step flow for irreversible tools. The first call returns an impact
+ * summary and a short-lived token signed with the tenant's key; the operation
+ * only runs when the token is passed back for the same tool and target.
+ */
+
+import { z } from 'zod';
+import { hmacBase64, timingSafeEqual } from '../utils/crypto.js';
+import { ValidationError } from '../utils/errors.js';
+import type { ToolResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import type { DryRunPreview } from './dry-run.js';
+
+/** How long a confirmation token stays valid */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+interface ConfirmationClaims {
+  /** Tool the token confirms */
+  tool: string;
+  /** ID of the entity the tool acts on */
+  target: string;
+  /** Expiry timestamp (ms) */
+  exp: number;
+}
+
+/**
+ * Zod schema field for the confirmation token
+ */
+export function confirmationParam() {
+  return z
+    .string()
+    .optional()
+    .describe('Token returned by the first call; required to execute the operation');
+}
+
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(context: ToolContext, payload: string): Promise<string> {
+  return toBase64Url(await hmacBase64('SHA-256', context.confirmationKey, payload));
+}
+
+/**
+ * Issue a token that confirms `tool` for `target`
+ */
+export async function createConfirmationToken(
+  context: ToolContext,
+  tool: string,
+  target: string
+): Promise<{ token: string; expiresAt: string }> {
+  const claims: ConfirmationClaims = { tool, target, exp: Date.now() + CONFIRMATION_TTL_MS };
+  const payload = toBase64Url(btoa(JSON.stringify(claims)));
+  return {
+    token: `${payload}.${await sign(context, payload)}`,
+    expiresAt: new Date(claims.exp).toISOString(),
+  };
+}
+
+/**
+ * Check that a token was issued to this tenant for `tool` on `target` and has
+ * not expired. Throws ValidationError otherwise.
+ */
+export async function verifyConfirmationToken(
+  context: ToolContext,
+  token: string,
+  tool: string,
+  target: string
+): Promise<void> {
+  const invalid = (reason: string) =>
+    new ValidationError(`Confirmation token rejected: ${reason}`, {
+      confirmationToken: ['Call the tool again without confirmationToken to get a new token'],
+    });
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !timingSafeEqual(await sign(context, payload), signature)) {
+    throw invalid('invalid signature');
+  }
+
+  let claims: ConfirmationClaims;
+  try {
+    claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    throw invalid('malformed token');
+  }
+  if (claims.tool !== tool || claims.target !== target) {
+    throw invalid(`issued for ${claims.tool} on ${claims.target}`);
+  }
+  if (claims.exp < Date.now()) {
+    throw invalid('expired');
+  }
+}
+
+/**
+ * Ask for confirmation: return the impact summary with a new token
+ *
+ * @param target - The ID argument the tool was called with
+ */
+export async function requireConfirmation(
+  context: ToolContext,
+  tool: string,
+  target: string,
+  preview: DryRunPreview
+): Promise<ToolResponse> {
+  const { token, expiresAt } = await createConfirmationToken(context, tool, target);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            confirmationRequired: true,
+            message: `Nothing was changed. To proceed, call ${tool} again with the same arguments and confirmationToken before ${expiresAt}.`,
+            confirmationToken: token,
+            expiresAt,
+            ...preview,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Tool Context
+ *
+ * Server-wide settings shared by all tool registration functions.
+ */
+
+import { z } from 'zod';
+import { type ArchiveStore, createArchiveStore } from '../archive/archive-store.js';
+import { createImportStateStore, type ImportStateStore } from '../archive/import-state.js';
+import { type Env, getCharacterLimit, getDefaultPageSize, getMaxPageSize } from '../types/env.js';
+import { createJournalStore, type JournalStore } from '../undo/journal.js';
+import { createEventStore, type EventStore } from '../webhooks/event-store.js';
+
+export interface ToolContext {
+  /** Maximum number of characters in a single tool response */
+  characterLimit: number;
+
+  /** Page size used when a list tool is called without a limit */
+  defaultPageSize: number;
+
+  /** Largest page size a list tool accepts */
+  maxPageSize: number;
+
+  /** Identifier of the tenant making the request */
+  tenant: string;
+
+  /** Callback URL of this Worker's webhook receiver for the tenant */
+  webhookCallbackUrl: string;
+
+  /** Webhook events received for the tenant */
+  eventStore: EventStore;
+
+  /** Undo journal recording the inverse of each change */
+  journal: JournalStore;
+
+  /** Progress of board imports, for resuming them */
+  importStore: ImportStateStore;
+
+  /** Exported board archives, read in chunks or imported by ID */
+  archiveStore: ArchiveStore;
+
+  /** Whether destructive tools preview instead of acting when dryRun is not given */
+  dryRunDefault: boolean;
+
+  /** Secret used to sign confirmation tokens for irreversible tools */
+  confirmationKey: string;
+}
+
+/** Per-request settings used to build the tool context */
+export interface RequestSettings {
+  /** Identifier of the tenant making the request */
+  tenant: string;
+
+  /** Origin of the Worker, used to build the webhook callback URL */
+  origin: string;
+
+  /** Default for the dryRun flag of destructive tools */
+  dryRunDefault: boolean;
+
+  /** Tenant secret used to sign confirmation tokens */
+  confirmationKey: string;
+}
+
+/**
+ * Build the tool context from environment configuration and request settings
+ */
+export function createToolContext(env: Env, settings: RequestSettings): ToolContext {
+  return {
+    characterLimit: getCharacterLimit(env),
+    defaultPageSize: getDefaultPageSize(env),
+    maxPageSize: getMaxPageSize(env),
+    tenant: settings.tenant,
+    webhookCallbackUrl: `${settings.origin}/webhooks/trello/${settings.tenant}`,
+    eventStore: createEventStore(env),
+    journal: createJournalStore(env),
+    importStore: createImportStateStore(env),
+    archiveStore: createArchiveStore(env),
+    dryRunDefault: settings.dryRunDefault,
+    confirmationKey: settings.confirmationKey,
+  };
+}
+
+/**
+ * Zod schema fields for offset-based pagination, bounded by the context
+ */
+export function paginationParams(context: ToolContext) {
+  return {
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(context.maxPageSize)
+      .default(context.defaultPageSize)
+      .describe(`Max items to return (1-${context.maxPageSize})`),
+    offset: z.number().int().min(0).default(0).describe('Number of items to skip'),
+  };
+}
@@ -8,11 +8,23 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { confirmationParam, requireConfirmation, verifyConfirmationToken } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import {
+  dryRunParam,
+  formatDryRun,
+  previewDeleteCustomField,
+  previewDeleteCustomFieldOption,
+} from './dry-run.js';
 
 /**
  * Register all custom field-related tools
  */
-export function registerCustomFieldTools(server: McpServer, client: TrelloClient): void {
+export function registerCustomFieldTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Custom Field
   // ===========================================================================
@@ -30,7 +42,7 @@ Args:
     async ({ customFieldId, format }) => {
       try {
         const field = await client.getCustomField(customFieldId);
-        return formatResponse(field, format, 'customField');
+        return formatResponse(field, format, 'customField', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -125,13 +137,33 @@ Args:
 
 WARNING: This will remove the field and all its values from all cards!
 
+Requires confirmation: the first call returns an impact summary and a
+confirmationToken; call again with the token within 5 minutes to delete.
+
 Args:
-  - customFieldId: The ID of the custom field to delete`,
+  - customFieldId: The ID of the custom field to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)
+  - confirmationToken: Token from the first call`,
     {
       customFieldId: z.string().describe('Custom field ID'),
+      dryRun: dryRunParam(context),
+      confirmationToken: confirmationParam(),
     },
-    async ({ customFieldId }) => {
+    async ({ customFieldId, dryRun, confirmationToken }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteCustomField(client, customFieldId));
+        }
+        if (!confirmationToken) {
+          const preview = await previewDeleteCustomField(client, customFieldId);
+          return requireConfirmation(context, 'trello_delete_custom_field', customFieldId, preview);
+        }
+        await verifyConfirmationToken(
+          context,
+          confirmationToken,
+          'trello_delete_custom_field',
+          customFieldId
+        );
         await client.deleteCustomField(customFieldId);
         return {
           content: [
@@ -164,7 +196,7 @@ Args:
     async ({ customFieldId, format }) => {
       try {
         const options = await client.getCustomFieldOptions(customFieldId);
-        return formatResponse(options, format, 'customFieldOptions');
+        return formatResponse(options, format, 'customFieldOptions', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -213,13 +245,20 @@ Args:
 
 Args:
   - customFieldId: The ID of the custom field
-  - optionId: The ID of the option to delete`,
+  - optionId: The ID of the option to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       customFieldId: z.string().describe('Custom field ID'),
       optionId: z.string().describe('Option ID'),
+      dryRun: dryRunParam(context),
     },
-    async ({ customFieldId, optionId }) => {
+    async ({ customFieldId, optionId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(
+            await previewDeleteCustomFieldOption(client, customFieldId, optionId)
+          );
+        }
         await client.deleteCustomFieldOption(customFieldId, optionId);
         return {
           content: [
@@ -0,0 +1,338 @@
+/**
+ * Dry Run
+ *
+ * Previews for destructive tools. When a tool is called with dryRun (or the
+ * tenant sends X-Trello-Dry-Run: true), it describes what it would delete,
+ * archive or move, with counts fetched from the client, and returns without
+ * calling the mutating endpoint.
+ */
+
+import { z } from 'zod';
+import type { TrelloClient } from '../client.js';
+import type { ToolResponse } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+
+export interface DryRunPreview {
+  /** What the tool would do, e.g. "Delete board" */
+  action: string;
+  target: { type: string; id: string; name?: string };
+  /** Number of affected entities by type */
+  affected: Record<string, number>;
+  /** What would happen, one effect per entry */
+  effects: string[];
+}
+
+/**
+ * Zod schema field for the dryRun flag, defaulting to the tenant's setting
+ */
+export function dryRunParam(context: ToolContext) {
+  return z
+    .boolean()
+    .default(context.dryRunDefault)
+    .describe('Only describe what would change, without changing anything');
+}
+
+/**
+ * Format a dry-run preview as a tool response
+ */
+export function formatDryRun(preview: DryRunPreview): ToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          { success: true, dryRun: true, message: 'Dry run: nothing was changed', ...preview },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+// =============================================================================
+// Boards and Workspaces
+// =============================================================================
+
+export async function previewDeleteBoard(
+  client: TrelloClient,
+  boardId: string
+): Promise<DryRunPreview> {
+  const [board, lists, cards] = await Promise.all([
+    client.getBoard(boardId),
+    client.getBoardLists(boardId, 'all'),
+    client.getBoardCards(boardId, 'all'),
+  ]);
+  return {
+    action: 'Delete board',
+    target: { type: 'board', id: board.id, name: board.name },
+    affected: { lists: lists.length, cards: cards.length },
+    effects: [
+      `Permanently delete board "${board.name}" with ${lists.length} lists and ${cards.length} cards (including archived)`,
+      'This cannot be undone',
+    ],
+  };
+}
+
+export async function previewRemoveBoardMember(
+  client: TrelloClient,
+  boardId: string,
+  memberId: string
+): Promise<DryRunPreview> {
+  const [board, member, cards] = await Promise.all([
+    client.getBoard(boardId),
+    client.getMember(memberId),
+    client.getBoardCards(boardId),
+  ]);
+  const assigned = cards.filter((card) => card.idMembers.includes(member.id)).length;
+  return {
+    action: 'Remove board member',
+    target: { type: 'member', id: member.id, name: member.username },
+    affected: { assignedCards: assigned },
+    effects: [
+      `Remove @${member.username} from board "${board.name}"`,
+      `@${member.username} is assigned to ${assigned} open cards on the board`,
+    ],
+  };
+}
+
+export async function previewDeleteOrganization(
+  client: TrelloClient,
+  orgId: string
+): Promise<DryRunPreview> {
+  const [organization, boards] = await Promise.all([
+    client.getOrganization(orgId),
+    client.getOrganizationBoards(orgId, 'all'),
+  ]);
+  const cardCounts = await Promise.all(
+    boards.map(async (board) => (await client.getBoardCards(board.id, 'all')).length)
+  );
+  const cards = cardCounts.reduce((sum, count) => sum + count, 0);
+  return {
+    action: 'Delete workspace',
+    target: { type: 'organization', id: organization.id, name: organization.displayName },
+    affected: { boards: boards.length, cards },
+    effects: [
+      `Permanently delete workspace "${organization.displayName}"`,
+      `Its ${boards.length} boards (${cards} cards) will no longer belong to a workspace`,
+      'This cannot be undone',
+    ],
+  };
+}
+
+// =============================================================================
+// Lists
+// =============================================================================
+
+export async function previewArchiveList(
+  client: TrelloClient,
+  listId: string
+): Promise<DryRunPreview> {
+  const [list, cards] = await Promise.all([client.getList(listId), client.getListCards(listId)]);
+  return {
+    action: 'Archive list',
+    target: { type: 'list', id: list.id, name: list.name },
+    affected: { cards: cards.length },
+    effects: [`Archive list "${list.name}"; its ${cards.length} open cards are hidden with it`],
+  };
+}
+
+export async function previewArchiveAllCardsInList(
+  client: TrelloClient,
+  listId: string
+): Promise<DryRunPreview> {
+  const [list, cards] = await Promise.all([client.getList(listId), client.getListCards(listId)]);
+  return {
+    action: 'Archive all cards in list',
+    target: { type: 'list', id: list.id, name: list.name },
+    affected: { cards: cards.length },
+    effects: [`Archive ${cards.length} open cards in list "${list.name}"`],
+  };
+}
+
+export async function previewMoveAllCardsInList(
+  client: TrelloClient,
+  listId: string,
+  idList: string
+): Promise<DryRunPreview> {
+  const [list, destination, cards] = await Promise.all([
+    client.getList(listId),
+    client.getList(idList),
+    client.getListCards(listId),
+  ]);
+  return {
+    action: 'Move all cards in list',
+    target: { type: 'list', id: list.id, name: list.name },
+    affected: { cards: cards.length },
+    effects: [`Move ${cards.length} open cards from "${list.name}" to "${destination.name}"`],
+  };
+}
+
+// =============================================================================
+// Cards
+// =============================================================================
+
+export async function previewDeleteCard(
+  client: TrelloClient,
+  cardId: string
+): Promise<DryRunPreview> {
+  const card = await client.getCard(cardId);
+  const badges = card.badges;
+  return {
+    action: 'Delete card',
+    target: { type: 'card', id: card.id, name: card.name },
+    affected: {
+      comments: badges?.comments ?? 0,
+      attachments: badges?.attachments ?? 0,
+      checkItems: badges?.checkItems ?? 0,
+    },
+    effects: [
+      `Permanently delete card "${card.name}" with ${badges?.comments ?? 0} comments, ${badges?.attachments ?? 0} attachments and ${badges?.checkItems ?? 0} checklist items`,
+      'This cannot be undone; use trello_archive_card to keep the card recoverable',
+    ],
+  };
+}
+
+export async function previewArchiveCard(
+  client: TrelloClient,
+  cardId: string
+): Promise<DryRunPreview> {
+  const card = await client.getCard(cardId);
+  return {
+    action: 'Archive card',
+    target: { type: 'card', id: card.id, name: card.name },
+    affected: { cards: card.closed ? 0 : 1 },
+    effects: [
+      card.closed ? `Card "${card.name}" is already archived` : `Archive card "${card.name}"`,
+    ],
+  };
+}
+
+export async function previewDeleteAttachment(
+  client: TrelloClient,
+  cardId: string,
+  attachmentId: string
+): Promise<DryRunPreview> {
+  const attachment = await client.getAttachment(cardId, attachmentId);
+  return {
+    action: 'Delete attachment',
+    target: { type: 'attachment', id: attachment.id, name: attachment.name },
+    affected: { attachments: 1 },
+    effects: [`Permanently delete attachment "${attachment.name}" from card ${cardId}`],
+  };
+}
+
+// =============================================================================
+// Labels and Checklists
+// =============================================================================
+
+export async function previewDeleteLabel(
+  client: TrelloClient,
+  labelId: string
+): Promise<DryRunPreview> {
+  const label = await client.getLabel(labelId);
+  const cards = await client.getBoardCards(label.idBoard, 'all');
+  const labelled = cards.filter((card) => card.idLabels.includes(label.id)).length;
+  const name = label.name || label.color || label.id;
+  return {
+    action: 'Delete label',
+    target: { type: 'label', id: label.id, name },
+    affected: { cards: labelled },
+    effects: [`Delete label "${name}" and remove it from ${labelled} cards`],
+  };
+}
+
+export async function previewDeleteChecklist(
+  client: TrelloClient,
+  checklistId: string
+): Promise<DryRunPreview> {
+  const checklist = await client.getChecklist(checklistId);
+  return {
+    action: 'Delete checklist',
+    target: { type: 'checklist', id: checklist.id, name: checklist.name },
+    affected: { checkItems: checklist.checkItems.length },
+    effects: [
+      `Permanently delete checklist "${checklist.name}" with ${checklist.checkItems.length} items`,
+    ],
+  };
+}
+
+export async function previewDeleteCheckItem(
+  client: TrelloClient,
+  checklistId: string,
+  checkItemId: string
+): Promise<DryRunPreview> {
+  const items = await client.getCheckItems(checklistId);
+  const item = items.find((candidate) => candidate.id === checkItemId);
+  return {
+    action: 'Delete check item',
+    target: { type: 'checkItem', id: checkItemId, name: item?.name },
+    affected: { checkItems: item ? 1 : 0 },
+    effects: [
+      item
+        ? `Permanently delete check item "${item.name}"`
+        : `Check item ${checkItemId} was not found on checklist ${checklistId}`,
+    ],
+  };
+}
+
+// =============================================================================
+// Custom Fields
+// =============================================================================
+
+export async function previewDeleteCustomField(
+  client: TrelloClient,
+  customFieldId: string
+): Promise<DryRunPreview> {
+  const field = await client.getCustomField(customFieldId);
+  const cards = await client.getBoardCards(field.idModel, 'all', { customFieldItems: true });
+  const withValue = cards.filter((card) =>
+    card.customFieldItems?.some((item) => item.idCustomField === field.id)
+  ).length;
+  return {
+    action: 'Delete custom field',
+    target: { type: 'customField', id: field.id, name: field.name },
+    affected: { cards: withValue },
+    effects: [
+      `Permanently delete custom field "${field.name}" and its values on ${withValue} cards`,
+    ],
+  };
+}
+
+export async function previewDeleteCustomFieldOption(
+  client: TrelloClient,
+  customFieldId: string,
+  optionId: string
+): Promise<DryRunPreview> {
+  const field = await client.getCustomField(customFieldId);
+  const cards = await client.getBoardCards(field.idModel, 'all', { customFieldItems: true });
+  const option = field.options?.find((candidate) => candidate.id === optionId);
+  const withOption = cards.filter((card) =>
+    card.customFieldItems?.some((item) => item.idValue === optionId)
+  ).length;
+  return {
+    action: 'Delete custom field option',
+    target: { type: 'customFieldOption', id: optionId, name: option?.value.text },
+    affected: { cards: withOption },
+    effects: [
+      `Delete option "${option?.value.text ?? optionId}" of "${field.name}" and clear it on ${withOption} cards`,
+    ],
+  };
+}
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+export async function previewDeleteWebhook(
+  client: TrelloClient,
+  webhookId: string
+): Promise<DryRunPreview> {
+  const webhook = await client.getWebhook(webhookId);
+  return {
+    action: 'Delete webhook',
+    target: { type: 'webhook', id: webhook.id, name: webhook.description || undefined },
+    affected: { webhooks: 1 },
+    effects: [`Stop sending events for model ${webhook.idModel} to ${webhook.callbackURL}`],
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Export Tools
+ *
+ * MCP tools that export board data in formats for spreadsheets.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { TrelloClient } from '../client.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatCardsAsCsv, formatError } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+
+/** Characters of a response left for the note on the rows that follow */
+const CSV_NOTICE_RESERVE = 200;
+
+/**
+ * Register all export tools
+ */
+export function registerExportTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Export Cards as CSV
+  // ===========================================================================
+  server.tool(
+    'trello_export_cards_csv',
+    `Export the cards of a board, or of one list, as CSV for spreadsheets.
+
+One row per card, ordered by list and position, with the columns ID, Name,
+List, Labels, Members (full names), Start, Due, Due Complete, Checklist Items
+Checked, Checklist Items, Description, Archived, Last Activity and URL,
+followed by one column per custom field on the board. Multiple labels or
+members in a cell are separated by "; ".
+
+As many rows as fit the server's response size limit are returned, each
+response with the header row. When rows remain, a "#" line after a blank line
+gives the offset to call again with.
+
+Args:
+  - boardId: The ID of the board
+  - idList: Only export the cards in this list
+  - filter: Filter by card status ('all', 'open', 'closed')
+  - customFields: Add a column per custom field (default: true)
+  - delimiter: Field delimiter: ',', ';' or a tab (default: ,)
+  - offset: Number of rows to skip (default: 0)`,
+    {
+      boardId: z.string().describe('Board ID'),
+      idList: z.string().optional().describe('Only cards in this list'),
+      filter: z.enum(['all', 'open', 'closed']).default('open').describe('Filter by status'),
+      customFields: z.boolean().default(true).describe('Add custom field columns'),
+      delimiter: z.enum([',', ';', '\t']).default(',').describe('Field delimiter'),
+      offset: z.number().int().min(0).default(0).describe('Number of rows to skip'),
+    },
+    async ({ boardId, idList, filter, customFields, delimiter, offset }) => {
+      try {
+        const [cards, lists, members, fields] = await Promise.all([
+          client.getBoardCards(boardId, filter, { customFieldItems: customFields }),
+          client.getBoardLists(boardId, 'all'),
+          client.getBoardMembers(boardId),
+          customFields ? client.getBoardCustomFields(boardId) : [],
+        ]);
+
+        const listOrder = new Map(
+          [...lists].sort((a, b) => a.pos - b.pos).map((list, index) => [list.id, index])
+        );
+        const rows = cards
+          .filter((card) => !idList || card.idList === idList)
+          .sort(
+            (a, b) =>
+              (listOrder.get(a.idList) ?? lists.length) -
+                (listOrder.get(b.idList) ?? lists.length) || a.pos - b.pos
+          );
+        if (offset > 0 && offset >= rows.length) {
+          throw new ValidationError(`Offset ${offset} is past the last row (${rows.length} rows)`);
+        }
+
+        const lookups = {
+          lists,
+          members,
+          customFields: [...fields].sort((a, b) => a.pos - b.pos),
+        };
+        const page = (count: number) =>
+          formatCardsAsCsv(rows.slice(offset, offset + count), lookups, delimiter);
+
+        // Most rows that fit the limit, at least one so every call makes progress
+        const budget = context.characterLimit - CSV_NOTICE_RESERVE;
+        let count = rows.length - offset;
+        if (page(count).length > budget) {
+          let low = 1;
+          let high = count - 1;
+          while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (page(mid).length <= budget) low = mid;
+            else high = mid - 1;
+          }
+          count = low;
+        }
+
+        const csv = page(count);
+        const next = offset + count;
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                next < rows.length
+                  ? `${csv}\n\n# Rows ${offset + 1}-${next} of ${rows.length}. Use offset ${next} to see more.`
+                  : csv,
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,375 @@
+/**
+ * Import Tools
+ *
+ * MCP tools that create cards from documents drafted outside Trello: CSV
+ * exports of spreadsheets and Markdown outlines.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { TrelloClient } from '../client.js';
+import type { InverseOperation } from '../undo/journal.js';
+import { parseCsv } from '../utils/csv.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  DEFAULT_CHECKLIST_NAME,
+  type OutlineChecklist,
+  parseMarkdownOutline,
+} from '../utils/markdown-outline.js';
+import type { ToolContext } from './context.js';
+import { dryRunParam } from './dry-run.js';
+import { recordUndo } from './undo.js';
+
+/** Largest number of cards a single import may create */
+const MAX_IMPORT_CARDS = 100;
+
+type CsvField = 'name' | 'desc' | 'due' | 'labels' | 'members' | 'checklist';
+
+/** Header names recognized for each field when no column mapping is given */
+const COLUMN_ALIASES: Record<CsvField, string[]> = {
+  name: ['name', 'title', 'card', 'card name', 'summary'],
+  desc: ['description', 'desc', 'details', 'notes'],
+  due: ['due', 'due date', 'deadline'],
+  labels: ['labels', 'label', 'tags'],
+  members: ['members', 'member', 'assignees', 'assignee'],
+  checklist: ['checklist', 'checklist items', 'tasks', 'subtasks'],
+};
+
+/** A card to create, parsed from the document */
+interface CardDraft {
+  /** Where the card came from, e.g. "row 3" */
+  source: string;
+  name: string;
+  desc: string;
+  due?: string;
+  labels: string[];
+  members: string[];
+  checklists: OutlineChecklist[];
+}
+
+interface ImportCardResult {
+  source: string;
+  name: string;
+  status: 'created' | 'planned' | 'failed';
+  cardId?: string;
+  url?: string;
+  checkItems: number;
+  warnings: string[];
+  error?: string;
+}
+
+interface CsvOptions {
+  columns?: Partial<Record<CsvField, string>>;
+  delimiter?: string;
+  listSeparator: string;
+  checklistName: string;
+}
+
+/**
+ * Turn CSV rows into card drafts. The first row is the header.
+ */
+function csvDrafts(content: string, options: CsvOptions): CardDraft[] {
+  const [header, ...rows] = parseCsv(content, options.delimiter);
+  if (!header) {
+    throw new ValidationError('The CSV document is empty');
+  }
+
+  const headers = header.map((name) => name.trim().toLowerCase());
+  const column = (field: CsvField): number => {
+    const mapped = options.columns?.[field];
+    const names = mapped ? [mapped.trim().toLowerCase()] : COLUMN_ALIASES[field];
+    const index = headers.findIndex((name) => names.includes(name));
+    if (mapped && index < 0) {
+      throw new ValidationError(`Column "${mapped}" for ${field} not found`, {
+        columns: [`Available columns: ${header.join(', ')}`],
+      });
+    }
+    return index;
+  };
+  const nameColumn = column('name');
+  if (nameColumn < 0) {
+    throw new ValidationError('No card name column found', {
+      columns: [
+        `Map one of ${header.join(', ')} with columns.name, or name a column "${COLUMN_ALIASES.name[0]}"`,
+      ],
+    });
+  }
+  const columns = {
+    desc: column('desc'),
+    due: column('due'),
+    labels: column('labels'),
+    members: column('members'),
+    checklist: column('checklist'),
+  };
+
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+  const split = (value: string) =>
+    value
+      .split('\n')
+      .flatMap((line) => line.split(options.listSeparator))
+      .map((part) => part.trim())
+      .filter(Boolean);
+
+  return rows.map((row, i) => {
+    const items = split(cell(row, columns.checklist)).map((item) => {
+      const match = /^\[( |x|X)\]\s*(.*)$/.exec(item);
+      return match
+        ? { text: match[2], checked: match[1].toLowerCase() === 'x' }
+        : { text: item, checked: false };
+    });
+    return {
+      // Row 1 is the header
+      source: `row ${i + 2}`,
+      name: cell(row, nameColumn),
+      desc: cell(row, columns.desc),
+      due: cell(row, columns.due) || undefined,
+      labels: split(cell(row, columns.labels)),
+      members: split(cell(row, columns.members)),
+      checklists: items.length > 0 ? [{ name: options.checklistName, items }] : [],
+    };
+  });
+}
+
+/**
+ * Turn a Markdown outline into card drafts, one per heading
+ */
+function markdownDrafts(content: string, headingLevel?: number): CardDraft[] {
+  return parseMarkdownOutline(content, headingLevel).map((section, i) => ({
+    source: `heading ${i + 1}`,
+    name: section.title,
+    desc: section.description,
+    labels: [],
+    members: [],
+    checklists: section.checklists,
+  }));
+}
+
+/**
+ * Register all import tools
+ */
+export function registerImportTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Import Cards
+  // ===========================================================================
+  server.tool(
+    'trello_import_cards',
+    `Create cards in a list from a CSV document or a Markdown outline.
+
+CSV: the first row is the header. Columns are found by name (name/title,
+description, due, labels, members, checklist) or mapped with columns. Labels
+are matched by name and members by username or full name on the list's board;
+multiple values and checklist items are separated by listSeparator or line
+breaks, and "[x] item" marks an item complete.
+
+Markdown: each heading becomes a card (by default at the shallowest heading
+level used more than once), the text under it the description, and each bullet
+or numbered list a checklist named after the line or sub-heading before it.
+"- [x] item" marks an item complete.
+
+Cards are created in document order at the bottom of the list. A failure on
+one card does not stop the others. Use dryRun to check the parsed cards first.
+
+Args:
+  - idList: List to create the cards in
+  - format: 'csv' or 'markdown'
+  - content: The document
+  - columns: CSV column for each field, e.g. { "name": "Summary", "members": "Owner" }
+  - delimiter: CSV delimiter (default: detected from the header row)
+  - listSeparator: Separator of labels, members and checklist items in a CSV cell (default: ;)
+  - checklistName: Name of the checklist made from the CSV checklist column (default: Checklist)
+  - headingLevel: Markdown heading level (1-6) that starts a card
+  - createLabels: Create labels that do not exist on the board (default: false)
+  - dryRun: Only report the cards that would be created (default: false, or the X-Trello-Dry-Run header)`,
+    {
+      idList: z.string().describe('List ID'),
+      format: z.enum(['csv', 'markdown']).describe('Document format'),
+      content: z.string().min(1).describe('CSV or Markdown document'),
+      columns: z
+        .object({
+          name: z.string().optional(),
+          desc: z.string().optional(),
+          due: z.string().optional(),
+          labels: z.string().optional(),
+          members: z.string().optional(),
+          checklist: z.string().optional(),
+        })
+        .optional()
+        .describe('CSV column names by field'),
+      delimiter: z.string().length(1).optional().describe('CSV delimiter'),
+      listSeparator: z.string().min(1).default(';').describe('Separator within a CSV cell'),
+      checklistName: z
+        .string()
+        .min(1)
+        .default(DEFAULT_CHECKLIST_NAME)
+        .describe('Checklist name for CSV items'),
+      headingLevel: z.number().int().min(1).max(6).optional().describe('Card heading level'),
+      createLabels: z.boolean().default(false).describe('Create missing labels'),
+      dryRun: dryRunParam(context),
+    },
+    async ({ idList, format, content, headingLevel, createLabels, dryRun, ...csvOptions }) => {
+      try {
+        const drafts =
+          format === 'csv' ? csvDrafts(content, csvOptions) : markdownDrafts(content, headingLevel);
+        if (drafts.length === 0) {
+          throw new ValidationError('No cards found in the document', {
+            content: [
+              format === 'csv' ? 'Add rows below the header' : 'Start each card with a heading',
+            ],
+          });
+        }
+        if (drafts.length > MAX_IMPORT_CARDS) {
+          throw new ValidationError(
+            `The document has ${drafts.length} cards; import at most ${MAX_IMPORT_CARDS} at a time`
+          );
+        }
+
+        const list = await client.getList(idList);
+        const [labels, members] = await Promise.all([
+          client.getBoardLabels(list.idBoard),
+          client.getBoardMembers(list.idBoard),
+        ]);
+
+        const resolveLabel = async (name: string, warnings: string[]) => {
+          const existing = labels.find((label) => label.name.toLowerCase() === name.toLowerCase());
+          if (existing) return existing.id;
+          if (!createLabels) {
+            warnings.push(`Label "${name}" not found on the board`);
+            return undefined;
+          }
+          if (dryRun) {
+            warnings.push(`Label "${name}" would be created`);
+            return undefined;
+          }
+          const created = await client.createLabel({
+            idBoard: list.idBoard,
+            name,
+            color: null,
+          });
+          labels.push(created);
+          return created.id;
+        };
+        const resolveMember = (name: string, warnings: string[]) => {
+          const wanted = name.replace(/^@/, '').toLowerCase();
+          const member = members.find(
+            (candidate) =>
+              candidate.username.toLowerCase() === wanted ||
+              candidate.fullName.toLowerCase() === wanted
+          );
+          if (!member) warnings.push(`Member "${name}" is not on the board`);
+          return member?.id;
+        };
+
+        const results: ImportCardResult[] = [];
+        const inverses: InverseOperation[] = [];
+        for (const draft of drafts) {
+          const warnings: string[] = [];
+          const result: ImportCardResult = {
+            source: draft.source,
+            name: draft.name,
+            status: dryRun ? 'planned' : 'created',
+            checkItems: draft.checklists.reduce(
+              (sum, checklist) => sum + checklist.items.length,
+              0
+            ),
+            warnings,
+          };
+          results.push(result);
+          try {
+            if (!draft.name) {
+              throw new Error('The card has no name');
+            }
+            let due: string | undefined;
+            if (draft.due) {
+              const parsed = Date.parse(draft.due);
+              if (Number.isNaN(parsed)) {
+                warnings.push(`Due date "${draft.due}" is not a date`);
+              } else {
+                due = new Date(parsed).toISOString();
+              }
+            }
+            const idLabels: string[] = [];
+            for (const name of draft.labels) {
+              const id = await resolveLabel(name, warnings);
+              if (id) idLabels.push(id);
+            }
+            const idMembers = draft.members
+              .map((name) => resolveMember(name, warnings))
+              .filter((id): id is string => Boolean(id));
+            if (dryRun) continue;
+
+            const card = await client.createCard({
+              idList,
+              name: draft.name,
+              desc: draft.desc || undefined,
+              pos: 'bottom',
+              due,
+              idLabels,
+              idMembers,
+            });
+            result.cardId = card.id;
+            result.url = card.shortUrl;
+            inverses.push({ type: 'updateCard', cardId: card.id, input: { closed: true } });
+
+            for (const checklist of draft.checklists) {
+              const created = await client.createChecklist({
+                idCard: card.id,
+                name: checklist.name,
+              });
+              for (const item of checklist.items) {
+                await client.createCheckItem(created.id, {
+                  name: item.text,
+                  pos: 'bottom',
+                  checked: item.checked,
+                });
+              }
+            }
+          } catch (error) {
+            result.status = 'failed';
+            result.error = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        const count = (status: ImportCardResult['status']) =>
+          results.filter((result) => result.status === status).length;
+        const summary = {
+          total: results.length,
+          created: count('created'),
+          planned: count('planned'),
+          failed: count('failed'),
+        };
+        const undoId =
+          inverses.length > 0
+            ? await recordUndo(
+                context,
+                'trello_import_cards',
+                `Imported ${inverses.length} cards into list "${list.name}"`,
+                { type: 'sequence', operations: inverses }
+              )
+            : undefined;
+
+        return formatResponse(
+          {
+            success: summary.failed === 0,
+            message: dryRun
+              ? `Dry run: ${summary.planned} cards would be created in "${list.name}"`
+              : `Created ${summary.created} of ${summary.total} cards in "${list.name}"`,
+            dryRun,
+            summary,
+            undoId,
+            results,
+          },
+          'json',
+          'importResults',
+          context.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
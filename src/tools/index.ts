@@ -7,43 +7,68 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { TrelloClient } from '../client.js';
 
+import { registerArchiveTools } from './archive.js';
+import { registerBatchTools } from './batch.js';
 import { registerBoardTools } from './boards.js';
+import { registerBulkTools } from './bulk.js';
 import { registerCardTools } from './cards.js';
 import { registerChecklistTools } from './checklists.js';
+import type { ToolContext } from './context.js';
 import { registerCustomFieldTools } from './customfields.js';
+import { registerExportTools } from './export.js';
+import { registerImportTools } from './import.js';
 import { registerLabelTools } from './labels.js';
 import { registerListTools } from './lists.js';
 import { registerMemberTools } from './members.js';
 import { registerOrganizationTools } from './organizations.js';
 import { registerSearchTools } from './search.js';
+import { registerUndoTools } from './undo.js';
 import { registerWebhookTools } from './webhooks.js';
 
 /**
  * Register all Trello tools with the MCP server
  */
-export function registerAllTools(server: McpServer, client: TrelloClient): void {
-  registerBoardTools(server, client);
-  registerListTools(server, client);
-  registerCardTools(server, client);
-  registerChecklistTools(server, client);
-  registerLabelTools(server, client);
-  registerMemberTools(server, client);
-  registerOrganizationTools(server, client);
-  registerSearchTools(server, client);
-  registerWebhookTools(server, client);
-  registerCustomFieldTools(server, client);
+export function registerAllTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  registerBoardTools(server, client, context);
+  registerListTools(server, client, context);
+  registerCardTools(server, client, context);
+  registerChecklistTools(server, client, context);
+  registerLabelTools(server, client, context);
+  registerMemberTools(server, client, context);
+  registerOrganizationTools(server, client, context);
+  registerSearchTools(server, client, context);
+  registerWebhookTools(server, client, context);
+  registerCustomFieldTools(server, client, context);
+  registerBatchTools(server, client, context);
+  registerBulkTools(server, client, context);
+  registerUndoTools(server, client, context);
+  registerArchiveTools(server, client, context);
+  registerImportTools(server, client, context);
+  registerExportTools(server, client, context);
 }
 
+export { createToolContext, type ToolContext } from './context.js';
+
 // Re-export individual tool registration functions
 export {
+  registerArchiveTools,
+  registerBatchTools,
   registerBoardTools,
+  registerBulkTools,
   registerCardTools,
   registerChecklistTools,
   registerCustomFieldTools,
+  registerExportTools,
+  registerImportTools,
   registerLabelTools,
   registerListTools,
   registerMemberTools,
   registerOrganizationTools,
   registerSearchTools,
+  registerUndoTools,
   registerWebhookTools,
 };
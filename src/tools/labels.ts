@@ -8,13 +8,21 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { confirmationParam, requireConfirmation, verifyConfirmationToken } from './confirmation.js';
+import type { ToolContext } from './context.js';
+import { dryRunParam, formatDryRun, previewDeleteLabel } from './dry-run.js';
+import { labelInverse, recordUndo } from './undo.js';
 
 const colorSchema = z.enum(['yellow', 'purple', 'blue', 'red', 'green', 'orange', 'black', 'sky', 'pink', 'lime']).nullable();
 
 /**
  * Register all label-related tools
  */
-export function registerLabelTools(server: McpServer, client: TrelloClient): void {
+export function registerLabelTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Label
   // ===========================================================================
@@ -32,7 +40,7 @@ Args:
     async ({ labelId, format }) => {
       try {
         const label = await client.getLabel(labelId);
-        return formatResponse(label, format, 'label');
+        return formatResponse(label, format, 'label', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -58,11 +66,21 @@ Args:
     async (input) => {
       try {
         const label = await client.createLabel(input);
+        const undoId = await recordUndo(
+          context,
+          'trello_create_label',
+          `Created label "${label.name || label.color}"`,
+          { type: 'deleteLabel', labelId: label.id }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Label created', label }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Label created', label, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -90,12 +108,23 @@ Args:
     },
     async ({ labelId, ...input }) => {
       try {
+        const prior = await client.getLabel(labelId);
         const label = await client.updateLabel(labelId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_label',
+          `Updated ${Object.keys(input).join(', ')} of label "${prior.name || prior.color}"`,
+          { type: 'updateLabel', labelId, input: labelInverse(prior, input) }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Label updated', label }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Label updated', label, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -112,13 +141,28 @@ Args:
     'trello_delete_label',
     `Delete a label from a board.
 
+Requires confirmation: the first call returns an impact summary and a
+confirmationToken; call again with the token within 5 minutes to delete.
+
 Args:
-  - labelId: The ID of the label to delete`,
+  - labelId: The ID of the label to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)
+  - confirmationToken: Token from the first call`,
     {
       labelId: z.string().describe('Label ID'),
+      dryRun: dryRunParam(context),
+      confirmationToken: confirmationParam(),
     },
-    async ({ labelId }) => {
+    async ({ labelId, dryRun, confirmationToken }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteLabel(client, labelId));
+        }
+        if (!confirmationToken) {
+          const preview = await previewDeleteLabel(client, labelId);
+          return requireConfirmation(context, 'trello_delete_label', labelId, preview);
+        }
+        await verifyConfirmationToken(context, confirmationToken, 'trello_delete_label', labelId);
         await client.deleteLabel(labelId);
         return {
           content: [
@@ -7,12 +7,26 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { formatError, formatPaginatedResponse, formatResponse } from '../utils/formatters.js';
+import { paginate } from '../utils/pagination.js';
+import { paginationParams, type ToolContext } from './context.js';
+import {
+  dryRunParam,
+  formatDryRun,
+  previewArchiveAllCardsInList,
+  previewArchiveList,
+  previewMoveAllCardsInList,
+} from './dry-run.js';
+import { cardInverse, listInverse, recordUndo } from './undo.js';
 
 /**
  * Register all list-related tools
  */
-export function registerListTools(server: McpServer, client: TrelloClient): void {
+export function registerListTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get List
   // ===========================================================================
@@ -30,7 +44,7 @@ Args:
     async ({ listId, format }) => {
       try {
         const list = await client.getList(listId);
-        return formatResponse(list, format, 'list');
+        return formatResponse(list, format, 'list', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -56,11 +70,21 @@ Args:
     async (input) => {
       try {
         const list = await client.createList(input);
+        const undoId = await recordUndo(
+          context,
+          'trello_create_list',
+          `Created list "${list.name}"`,
+          { type: 'updateList', listId: list.id, input: { closed: true } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'List created', list }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'List created', list, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -90,12 +114,23 @@ Args:
     },
     async ({ listId, ...input }) => {
       try {
+        const prior = await client.getList(listId);
         const list = await client.updateList(listId, input);
+        const undoId = await recordUndo(
+          context,
+          'trello_update_list',
+          `Updated ${Object.keys(input).join(', ')} of list "${prior.name}"`,
+          { type: 'updateList', listId, input: listInverse(prior, input) }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'List updated', list }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'List updated', list, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -113,18 +148,33 @@ Args:
     `Archive a list.
 
 Args:
-  - listId: The ID of the list to archive`,
+  - listId: The ID of the list to archive
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       listId: z.string().describe('List ID to archive'),
+      dryRun: dryRunParam(context),
     },
-    async ({ listId }) => {
+    async ({ listId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewArchiveList(client, listId));
+        }
         const list = await client.archiveList(listId);
+        const undoId = await recordUndo(
+          context,
+          'trello_archive_list',
+          `Archived list "${list.name}"`,
+          { type: 'updateList', listId, input: { closed: false } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'List archived', list }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'List archived', list, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -149,11 +199,21 @@ Args:
     async ({ listId }) => {
       try {
         const list = await client.unarchiveList(listId);
+        const undoId = await recordUndo(
+          context,
+          'trello_unarchive_list',
+          `Unarchived list "${list.name}"`,
+          { type: 'updateList', listId, input: { closed: true } }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'List unarchived', list }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'List unarchived', list, undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -173,16 +233,25 @@ Args:
 Args:
   - listId: The ID of the list
   - filter: Filter by card status ('all', 'open', 'closed')
-  - format: Response format`,
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
+  - format: Response format ('json', 'markdown' or 'csv'). CSV has list and member IDs and
+    no custom field columns; use trello_export_cards_csv for names and custom fields`,
     {
       listId: z.string().describe('List ID'),
       filter: z.enum(['all', 'open', 'closed']).default('open').describe('Filter by status'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      ...paginationParams(context),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ listId, filter, format }) => {
+    async ({ listId, filter, limit, offset, format }) => {
       try {
         const cards = await client.getListCards(listId, filter);
-        return formatResponse(cards, format, 'cards');
+        return formatPaginatedResponse(
+          paginate(cards, offset, limit),
+          format,
+          'cards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -197,18 +266,41 @@ Args:
     `Archive all cards in a list.
 
 Args:
-  - listId: The ID of the list`,
+  - listId: The ID of the list
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       listId: z.string().describe('List ID'),
+      dryRun: dryRunParam(context),
     },
-    async ({ listId }) => {
+    async ({ listId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewArchiveAllCardsInList(client, listId));
+        }
+        const cards = await client.getListCards(listId);
         await client.archiveAllCardsInList(listId);
+        const undoId = await recordUndo(
+          context,
+          'trello_archive_all_cards_in_list',
+          `Archived ${cards.length} cards in list ${listId}`,
+          {
+            type: 'sequence',
+            operations: cards.map((card) => ({
+              type: 'updateCard',
+              cardId: card.id,
+              input: { closed: false },
+            })),
+          }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'All cards in list archived' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'All cards in list archived', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -228,20 +320,43 @@ Args:
 Args:
   - listId: The ID of the source list
   - idBoard: The ID of the destination board
-  - idList: The ID of the destination list`,
+  - idList: The ID of the destination list
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       listId: z.string().describe('Source list ID'),
       idBoard: z.string().describe('Destination board ID'),
       idList: z.string().describe('Destination list ID'),
+      dryRun: dryRunParam(context),
     },
-    async ({ listId, idBoard, idList }) => {
+    async ({ listId, idBoard, idList, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewMoveAllCardsInList(client, listId, idList));
+        }
+        const cards = await client.getListCards(listId);
         await client.moveAllCardsInList(listId, idBoard, idList);
+        const undoId = await recordUndo(
+          context,
+          'trello_move_all_cards_in_list',
+          `Moved ${cards.length} cards from list ${listId} to list ${idList}`,
+          {
+            type: 'sequence',
+            operations: cards.map((card) => ({
+              type: 'updateCard',
+              cardId: card.id,
+              input: cardInverse(card, { idList, idBoard }),
+            })),
+          }
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'All cards moved' }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'All cards moved', undoId },
+                null,
+                2
+              ),
             },
           ],
         };
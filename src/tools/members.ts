@@ -7,12 +7,18 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { formatError, formatPaginatedResponse, formatResponse } from '../utils/formatters.js';
+import { paginate } from '../utils/pagination.js';
+import { paginationParams, type ToolContext } from './context.js';
 
 /**
  * Register all member-related tools
  */
-export function registerMemberTools(server: McpServer, client: TrelloClient): void {
+export function registerMemberTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Current User (Me)
   // ===========================================================================
@@ -28,7 +34,7 @@ Args:
     async ({ format }) => {
       try {
         const member = await client.getMe();
-        return formatResponse(member, format, 'member');
+        return formatResponse(member, format, 'member', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -52,7 +58,7 @@ Args:
     async ({ idOrUsername, format }) => {
       try {
         const member = await client.getMember(idOrUsername);
-        return formatResponse(member, format, 'member');
+        return formatResponse(member, format, 'member', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -69,16 +75,24 @@ Args:
 Args:
   - idOrUsername: The ID or username of the member (use 'me' for current user)
   - filter: Filter by board status ('all', 'open', 'closed')
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
   - format: Response format`,
     {
       idOrUsername: z.string().default('me').describe('Member ID or username'),
       filter: z.enum(['all', 'open', 'closed']).default('open').describe('Filter by status'),
+      ...paginationParams(context),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ idOrUsername, filter, format }) => {
+    async ({ idOrUsername, filter, limit, offset, format }) => {
       try {
         const boards = await client.getMemberBoards(idOrUsername, filter);
-        return formatResponse(boards, format, 'boards');
+        return formatPaginatedResponse(
+          paginate(boards, offset, limit),
+          format,
+          'boards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -94,15 +108,23 @@ Args:
 
 Args:
   - idOrUsername: The ID or username of the member (use 'me' for current user)
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
   - format: Response format`,
     {
       idOrUsername: z.string().default('me').describe('Member ID or username'),
+      ...paginationParams(context),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ idOrUsername, format }) => {
+    async ({ idOrUsername, limit, offset, format }) => {
       try {
         const cards = await client.getMemberCards(idOrUsername);
-        return formatResponse(cards, format, 'cards');
+        return formatPaginatedResponse(
+          paginate(cards, offset, limit),
+          format,
+          'cards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -126,7 +148,7 @@ Args:
     async ({ idOrUsername, format }) => {
       try {
         const orgs = await client.getMemberOrganizations(idOrUsername);
-        return formatResponse(orgs, format, 'organizations');
+        return formatResponse(orgs, format, 'organizations', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -152,7 +174,7 @@ Args:
     async ({ query, limit, format }) => {
       try {
         const members = await client.searchMembers(query, limit);
-        return formatResponse(members, format, 'members');
+        return formatResponse(members, format, 'members', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -7,12 +7,20 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { formatError, formatPaginatedResponse, formatResponse } from '../utils/formatters.js';
+import { paginate } from '../utils/pagination.js';
+import { confirmationParam, requireConfirmation, verifyConfirmationToken } from './confirmation.js';
+import { paginationParams, type ToolContext } from './context.js';
+import { dryRunParam, formatDryRun, previewDeleteOrganization } from './dry-run.js';
 
 /**
  * Register all organization-related tools
  */
-export function registerOrganizationTools(server: McpServer, client: TrelloClient): void {
+export function registerOrganizationTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Get Organization
   // ===========================================================================
@@ -30,7 +38,7 @@ Args:
     async ({ orgId, format }) => {
       try {
         const org = await client.getOrganization(orgId);
-        return formatResponse(org, format, 'organization');
+        return formatResponse(org, format, 'organization', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -118,13 +126,33 @@ Args:
 
 WARNING: This action cannot be undone!
 
+Requires confirmation: the first call returns an impact summary and a
+confirmationToken; call again with the token within 5 minutes to delete.
+
 Args:
-  - orgId: The ID or name of the organization to delete`,
+  - orgId: The ID or name of the organization to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)
+  - confirmationToken: Token from the first call`,
     {
       orgId: z.string().describe('Organization ID or name'),
+      dryRun: dryRunParam(context),
+      confirmationToken: confirmationParam(),
     },
-    async ({ orgId }) => {
+    async ({ orgId, dryRun, confirmationToken }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteOrganization(client, orgId));
+        }
+        if (!confirmationToken) {
+          const preview = await previewDeleteOrganization(client, orgId);
+          return requireConfirmation(context, 'trello_delete_organization', orgId, preview);
+        }
+        await verifyConfirmationToken(
+          context,
+          confirmationToken,
+          'trello_delete_organization',
+          orgId
+        );
         await client.deleteOrganization(orgId);
         return {
           content: [
@@ -157,7 +185,7 @@ Args:
     async ({ orgId, format }) => {
       try {
         const members = await client.getOrganizationMembers(orgId);
-        return formatResponse(members, format, 'members');
+        return formatResponse(members, format, 'members', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -174,16 +202,24 @@ Args:
 Args:
   - orgId: The ID or name of the organization
   - filter: Filter by board status ('all', 'open', 'closed')
+  - limit: Max items to return (default from server config)
+  - offset: Number of items to skip (default: 0)
   - format: Response format`,
     {
       orgId: z.string().describe('Organization ID or name'),
       filter: z.enum(['all', 'open', 'closed']).default('open').describe('Filter by status'),
+      ...paginationParams(context),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ orgId, filter, format }) => {
+    async ({ orgId, filter, limit, offset, format }) => {
       try {
         const boards = await client.getOrganizationBoards(orgId, filter);
-        return formatResponse(boards, format, 'boards');
+        return formatPaginatedResponse(
+          paginate(boards, offset, limit),
+          format,
+          'boards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
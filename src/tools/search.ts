@@ -7,54 +7,228 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type { TrelloAction, TrelloActionSearchHit, TrelloCard } from '../types/entities.js';
+import { type CardPredicate, type CardQueryContext, parseCardQuery } from '../utils/card-query.js';
+import { formatError, formatPaginatedResponse, formatResponse } from '../utils/formatters.js';
+import { paginate } from '../utils/pagination.js';
+import { buildSearchQuery } from '../utils/search-query.js';
+import { paginationParams, type ToolContext } from './context.js';
+
+/**
+ * Flatten an action search result into a hit with its card and board context
+ */
+function toActionSearchHit(action: TrelloAction): TrelloActionSearchHit {
+  const { card, board, list } = action.data;
+  return {
+    id: action.id,
+    type: action.type,
+    date: action.date,
+    text: action.data.text ?? null,
+    idMemberCreator: action.idMemberCreator,
+    memberCreator: action.memberCreator
+      ? { username: action.memberCreator.username, fullName: action.memberCreator.fullName }
+      : null,
+    card: card
+      ? {
+          id: card.id,
+          name: card.name,
+          url: card.shortLink ? `https://trello.com/c/${card.shortLink}` : null,
+        }
+      : null,
+    board: board ? { id: board.id, name: board.name } : null,
+    list: list ? { id: list.id, name: list.name } : null,
+  };
+}
+
+/**
+ * Fetch the cards of one or more boards and keep those matching a predicate
+ */
+export async function queryBoardCards(
+  client: TrelloClient,
+  boardIds: string[],
+  predicate: CardPredicate,
+  includeArchived = false
+): Promise<TrelloCard[]> {
+  const queryContext: CardQueryContext = {
+    lists: new Map(),
+    members: new Map(),
+    customFields: new Map(),
+  };
+  const cards: TrelloCard[] = [];
+  for (const boardId of boardIds) {
+    const [lists, members, customFields, boardCards] = await Promise.all([
+      client.getBoardLists(boardId, 'all'),
+      client.getBoardMembers(boardId),
+      client.getBoardCustomFields(boardId),
+      client.getBoardCards(boardId, includeArchived ? 'all' : 'open', {
+        customFieldItems: true,
+      }),
+    ]);
+    for (const list of lists) queryContext.lists.set(list.id, list);
+    for (const member of members) queryContext.members.set(member.id, member);
+    for (const field of customFields) queryContext.customFields.set(field.id, field);
+    cards.push(...boardCards);
+  }
+
+  return cards.filter((card) => predicate(card, queryContext));
+}
 
 /**
  * Register all search-related tools
  */
-export function registerSearchTools(server: McpServer, client: TrelloClient): void {
+export function registerSearchTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // Search
   // ===========================================================================
   server.tool(
     'trello_search',
-    `Search across Trello for boards, cards, members, and organizations.
+    `Search across Trello for boards, cards, members, organizations, and comments.
+
+Include "actions" in modelTypes to search comment text; each action hit
+includes the comment, its author and the card, list and board it is on.
 
-Uses Trello's search syntax. Examples:
-- "bug fix" - Search for "bug fix"
-- "@username" - Search by member
-- "#label" - Search by label
-- "board:BoardName" - Search in specific board
-- "is:open" - Filter by open items
-- "due:week" - Cards due this week
+Combine free text in query with structured filters; they are compiled into
+Trello's search operators with the necessary quoting, e.g.
+labels: ["in progress"], list: "To Do", due: "week" becomes
+label:"in progress" list:"To Do" due:week
 
 Args:
-  - query: Search query (required)
-  - modelTypes: Types to search (boards, cards, members, organizations)
+  - query: Free-text search terms (required unless a filter is given)
+  - labels: Label names or colors the card must have
+  - members: Usernames of members assigned to the card
+  - list: Name of the list the card is in
+  - board: Name of the board to search in
+  - due: day, week, month, overdue, complete, incomplete, or a number of days
+  - created: Created within day, week, month, or a number of days
+  - edited: Edited within day, week, month, or a number of days
+  - has: Properties the card must have (attachments, description, cover, members, stickers)
+  - is: States to match (open, archived, starred)
+  - modelTypes: Types to search (actions, boards, cards, members, organizations)
   - idBoards: Limit search to specific board IDs
   - cards_limit: Max cards to return (default: 10)
   - boards_limit: Max boards to return (default: 10)
   - partial: Enable partial matching
   - format: Response format`,
     {
-      query: z.string().describe('Search query'),
-      modelTypes: z.array(z.enum(['boards', 'cards', 'members', 'organizations'])).optional().describe('Types to search'),
+      query: z.string().optional().describe('Free-text search terms'),
+      labels: z.array(z.string()).optional().describe('Label names or colors'),
+      members: z.array(z.string()).optional().describe('Member usernames'),
+      list: z.string().optional().describe('List name'),
+      board: z.string().optional().describe('Board name'),
+      due: z
+        .union([
+          z.enum(['day', 'week', 'month', 'overdue', 'complete', 'incomplete']),
+          z.number().int().min(1),
+        ])
+        .optional()
+        .describe('Due window, state, or days from now'),
+      created: z
+        .union([z.enum(['day', 'week', 'month']), z.number().int().min(1)])
+        .optional()
+        .describe('Created within window or days'),
+      edited: z
+        .union([z.enum(['day', 'week', 'month']), z.number().int().min(1)])
+        .optional()
+        .describe('Edited within window or days'),
+      has: z
+        .array(z.enum(['attachments', 'description', 'cover', 'members', 'stickers']))
+        .optional()
+        .describe('Required card properties'),
+      is: z.array(z.enum(['open', 'archived', 'starred'])).optional().describe('States to match'),
+      modelTypes: z
+        .array(z.enum(['actions', 'boards', 'cards', 'members', 'organizations']))
+        .optional()
+        .describe('Types to search'),
       idBoards: z.array(z.string()).optional().describe('Limit to board IDs'),
       cards_limit: z.number().int().min(1).max(1000).default(10).describe('Max cards'),
       boards_limit: z.number().int().min(1).max(1000).default(10).describe('Max boards'),
       partial: z.boolean().default(true).describe('Enable partial matching'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ query, modelTypes, idBoards, cards_limit, boards_limit, partial, format }) => {
+    async ({ query, modelTypes, idBoards, cards_limit, boards_limit, partial, format, ...filters }) => {
       try {
-        const results = await client.search(query, {
+        const compiled = buildSearchQuery(query, filters);
+        const results = await client.search(compiled, {
           modelTypes,
           idBoards,
           cards_limit,
           boards_limit,
           partial,
         });
-        return formatResponse(results, format, 'searchResults');
+        return formatResponse(
+          {
+            query: compiled,
+            ...results,
+            actions: results.actions?.map(toActionSearchHit),
+          },
+          format,
+          'searchResults',
+          context.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Query Cards
+  // ===========================================================================
+  server.tool(
+    'trello_query_cards',
+    `Find cards on one or more boards that exactly match a filter expression.
+
+Unlike trello_search, every card on the boards is fetched and filtered
+locally, so results are complete, up to date and not ranked.
+
+Terms are field<op>value, combined with AND (or a space), OR, NOT (or a
+leading -) and parentheses. Quote values with spaces: list:"In Progress".
+
+Fields:
+  - label, member, list: Label name or color, member username, list name
+  - name, desc, text: Card name, description, or both
+  - due, start: ISO date, now, today, +7d / -2w / +12h, any, none
+  - is: open, archived, complete, incomplete, overdue
+  - field[Name]: Custom field value, compared as number, date, text or true/false
+
+Operators: : (contains for text, equals for names, same day for dates),
+=, !=, <, <=, >, >=, ~ (regex, e.g. name~/^api/i)
+
+Examples:
+  - label:Bug AND due<+7d -list:Done
+  - (member:alice OR member:bob) is:overdue
+  - field["Story Points"]>=5 text~migration
+
+Args:
+  - boardIds: Boards to query (required)
+  - where: Filter expression (required)
+  - includeArchived: Include archived cards (default: false)
+  - limit: Max cards to return
+  - offset: Number of cards to skip
+  - format: Response format ('json', 'markdown' or 'csv'). CSV has list and member IDs and
+    no custom field columns; use trello_export_cards_csv for names and custom fields`,
+    {
+      boardIds: z.array(z.string()).min(1).describe('Board IDs'),
+      where: z.string().describe('Filter expression'),
+      includeArchived: z.boolean().default(false).describe('Include archived cards'),
+      ...paginationParams(context),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
+    },
+    async ({ boardIds, where, includeArchived, limit, offset, format }) => {
+      try {
+        // Parse before fetching so syntax errors fail fast
+        const predicate = parseCardQuery(where);
+        const matches = await queryBoardCards(client, boardIds, predicate, includeArchived);
+        return formatPaginatedResponse(
+          paginate(matches, offset, limit),
+          format,
+          'cards',
+          context.characterLimit
+        );
       } catch (error) {
         return formatError(error);
       }
@@ -0,0 +1,392 @@
+/**
+ * Undo Tools
+ *
+ * Helpers that mutating tools use to capture the state they overwrite and
+ * record its inverse in the undo journal, and the trello_undo tool that
+ * replays those inverses.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { TrelloClient } from '../client.js';
+import type {
+  TrelloBoard,
+  TrelloBoardUpdateInput,
+  TrelloCard,
+  TrelloCardUpdateInput,
+  TrelloCheckItem,
+  TrelloCheckItemUpdateInput,
+  TrelloCustomFieldItem,
+  TrelloLabel,
+  TrelloLabelUpdateInput,
+  TrelloList,
+  TrelloListUpdateInput,
+} from '../types/entities.js';
+import { createJournalEntryId, type InverseOperation, type JournalEntry } from '../undo/journal.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+import type { ToolContext } from './context.js';
+import { dryRunParam, formatDryRun } from './dry-run.js';
+
+/** Most operations a single trello_undo call reverts */
+const MAX_UNDO_COUNT = 50;
+
+/** Steps of a sequence reverted in parallel */
+const SEQUENCE_CONCURRENCY = 5;
+
+/** Board preferences that can be read back from board.prefs */
+const BOARD_PREFS = [
+  'permissionLevel',
+  'selfJoin',
+  'cardCovers',
+  'hideVotes',
+  'invitations',
+  'voting',
+  'comments',
+  'background',
+  'cardAging',
+  'calendarFeedEnabled',
+] as const;
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Record the inverse of a change in the tenant's journal.
+ *
+ * Returns the entry ID. The change has already been made when this is called,
+ * so a journal write failure is not reported as a tool failure; the entry ID
+ * is undefined instead.
+ */
+export async function recordUndo(
+  context: ToolContext,
+  tool: string,
+  description: string,
+  inverse: InverseOperation
+): Promise<string | undefined> {
+  const entry: JournalEntry = {
+    id: createJournalEntryId(),
+    tenant: context.tenant,
+    tool,
+    description,
+    createdAt: new Date().toISOString(),
+    inverse,
+  };
+  try {
+    await context.journal.put(entry);
+    return entry.id;
+  } catch {
+    return undefined;
+  }
+}
+
+// =============================================================================
+// Capturing Prior State
+// =============================================================================
+
+/**
+ * Prior values of the card fields an update writes
+ */
+export function cardInverse(card: TrelloCard, input: TrelloCardUpdateInput): TrelloCardUpdateInput {
+  const inverse: TrelloCardUpdateInput = {};
+  if (input.name !== undefined) inverse.name = card.name;
+  if (input.desc !== undefined) inverse.desc = card.desc;
+  if (input.closed !== undefined) inverse.closed = card.closed;
+  if (input.idList !== undefined) inverse.idList = card.idList;
+  if (input.idBoard !== undefined) inverse.idBoard = card.idBoard;
+  // Moving a card also changes its position in the list
+  if (input.idList !== undefined || input.pos !== undefined) inverse.pos = card.pos;
+  if (input.due !== undefined) inverse.due = card.due;
+  if (input.start !== undefined) inverse.start = card.start;
+  if (input.dueComplete !== undefined) inverse.dueComplete = card.dueComplete;
+  if (input.subscribed !== undefined) inverse.subscribed = card.subscribed ?? false;
+  if (input.idMembers !== undefined) inverse.idMembers = [...card.idMembers];
+  if (input.idLabels !== undefined) inverse.idLabels = [...card.idLabels];
+  if (input.cover !== undefined) {
+    inverse.cover = {
+      color: card.cover?.color ?? null,
+      size: card.cover?.size,
+      brightness: card.cover?.brightness,
+      ...(card.cover?.idAttachment && { idAttachment: card.cover.idAttachment }),
+    };
+  }
+  return inverse;
+}
+
+/**
+ * Prior values of the list fields an update writes
+ */
+export function listInverse(list: TrelloList, input: TrelloListUpdateInput): TrelloListUpdateInput {
+  const inverse: TrelloListUpdateInput = {};
+  if (input.name !== undefined) inverse.name = list.name;
+  if (input.closed !== undefined) inverse.closed = list.closed;
+  if (input.idBoard !== undefined) inverse.idBoard = list.idBoard;
+  if (input.idBoard !== undefined || input.pos !== undefined) inverse.pos = list.pos;
+  if (input.subscribed !== undefined) inverse.subscribed = list.subscribed ?? false;
+  return inverse;
+}
+
+/**
+ * Prior values of the board fields an update writes. Label names are not part
+ * of the board model and are not captured.
+ */
+export function boardInverse(
+  board: TrelloBoard,
+  input: TrelloBoardUpdateInput
+): TrelloBoardUpdateInput {
+  const inverse: TrelloBoardUpdateInput = {};
+  if (input.name !== undefined) inverse.name = board.name;
+  if (input.desc !== undefined) inverse.desc = board.desc;
+  if (input.closed !== undefined) inverse.closed = board.closed;
+  if (input.idOrganization !== undefined && board.idOrganization) {
+    inverse.idOrganization = board.idOrganization;
+  }
+  const prefs: Record<string, unknown> = {};
+  for (const pref of BOARD_PREFS) {
+    if (input[`prefs_${pref}`] !== undefined) prefs[`prefs_${pref}`] = board.prefs[pref];
+  }
+  return { ...inverse, ...prefs };
+}
+
+/**
+ * Prior values of the label fields an update writes
+ */
+export function labelInverse(
+  label: TrelloLabel,
+  input: TrelloLabelUpdateInput
+): TrelloLabelUpdateInput {
+  const inverse: TrelloLabelUpdateInput = {};
+  if (input.name !== undefined) inverse.name = label.name;
+  if (input.color !== undefined) inverse.color = label.color;
+  return inverse;
+}
+
+/**
+ * Prior values of the check item fields an update writes
+ */
+export function checkItemInverse(
+  item: TrelloCheckItem,
+  input: TrelloCheckItemUpdateInput
+): TrelloCheckItemUpdateInput {
+  const inverse: TrelloCheckItemUpdateInput = {};
+  if (input.name !== undefined) inverse.name = item.name;
+  if (input.state !== undefined) inverse.state = item.state;
+  if (input.pos !== undefined) inverse.pos = item.pos;
+  if (input.due !== undefined) inverse.due = item.due;
+  if (input.idMember !== undefined) inverse.idMember = item.idMember;
+  return inverse;
+}
+
+/**
+ * Request body that restores a card's prior custom field value
+ */
+export function customFieldValueInverse(
+  items: TrelloCustomFieldItem[],
+  customFieldId: string
+): Record<string, unknown> {
+  const item = items.find((candidate) => candidate.idCustomField === customFieldId);
+  if (item?.idValue) return { idValue: item.idValue };
+  if (item?.value) return { value: item.value };
+  return { value: '' };
+}
+
+// =============================================================================
+// Replaying
+// =============================================================================
+
+/**
+ * Apply an inverse operation
+ */
+export async function applyInverse(
+  client: TrelloClient,
+  operation: InverseOperation
+): Promise<void> {
+  switch (operation.type) {
+    case 'updateBoard':
+      await client.updateBoard(operation.boardId, operation.input);
+      return;
+    case 'updateList':
+      await client.updateList(operation.listId, operation.input);
+      return;
+    case 'updateCard':
+      await client.updateCard(operation.cardId, operation.input);
+      return;
+    case 'addLabelToCard':
+      await client.addLabelToCard(operation.cardId, operation.labelId);
+      return;
+    case 'removeLabelFromCard':
+      await client.removeLabelFromCard(operation.cardId, operation.labelId);
+      return;
+    case 'addMemberToCard':
+      await client.addMemberToCard(operation.cardId, operation.memberId);
+      return;
+    case 'removeMemberFromCard':
+      await client.removeMemberFromCard(operation.cardId, operation.memberId);
+      return;
+    case 'updateComment':
+      await client.updateComment(operation.cardId, operation.actionId, operation.text);
+      return;
+    case 'deleteComment':
+      await client.deleteComment(operation.cardId, operation.actionId);
+      return;
+    case 'deleteAttachment':
+      await client.deleteAttachment(operation.cardId, operation.attachmentId);
+      return;
+    case 'setCardCustomField':
+      await client.setCardCustomFieldValue(
+        operation.cardId,
+        operation.customFieldId,
+        operation.value
+      );
+      return;
+    case 'updateLabel':
+      await client.updateLabel(operation.labelId, operation.input);
+      return;
+    case 'deleteLabel':
+      await client.deleteLabel(operation.labelId);
+      return;
+    case 'updateChecklist':
+      await client.updateChecklist(operation.checklistId, operation.name);
+      return;
+    case 'deleteChecklist':
+      await client.deleteChecklist(operation.checklistId);
+      return;
+    case 'updateCheckItem':
+      await client.updateCheckItem(operation.cardId, operation.checkItemId, operation.input);
+      return;
+    case 'deleteCheckItem':
+      await client.deleteCheckItem(operation.checklistId, operation.checkItemId);
+      return;
+    case 'sequence': {
+      const outcomes = await mapWithConcurrency(
+        operation.operations,
+        SEQUENCE_CONCURRENCY,
+        (step) => applyInverse(client, step)
+      );
+      const errors = outcomes.flatMap((outcome) => (outcome.ok ? [] : [outcome.error]));
+      if (errors.length > 0) {
+        const first = errors[0] instanceof Error ? errors[0].message : String(errors[0]);
+        throw new Error(
+          `${errors.length} of ${operation.operations.length} steps failed; first error: ${first}`
+        );
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Register the undo tool
+ */
+export function registerUndoTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
+  // ===========================================================================
+  // Undo
+  // ===========================================================================
+  server.tool(
+    'trello_undo',
+    `Revert changes made through this server.
+
+Mutating tools record the values they overwrite in a per-tenant journal and
+return its entry ID as undoId. Undo restores those values, newest operation
+first, and stops at the first operation that fails. Created boards, lists and
+cards are archived; created labels, checklists, check items, comments and
+attachments are deleted. Deletions and workspace, webhook and custom field definition changes
+are not journaled. Use dryRun to list what would be reverted.
+
+Args:
+  - count: Number of most recent operations to revert (default: 1)
+  - operationId: Revert only this operation (an undoId), instead of the most recent ones
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
+    {
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_UNDO_COUNT)
+        .default(1)
+        .describe(`Operations to revert (1-${MAX_UNDO_COUNT})`),
+      operationId: z.string().optional().describe('Journal entry ID (undoId) to revert'),
+      dryRun: dryRunParam(context),
+    },
+    async ({ count, operationId, dryRun }) => {
+      try {
+        let entries: JournalEntry[];
+        if (operationId) {
+          const entry = await context.journal.get(context.tenant, operationId);
+          if (!entry) {
+            throw new NotFoundError('Journal entry', operationId);
+          }
+          if (entry.undoneAt) {
+            throw new ValidationError(`Operation ${operationId} was already undone`, {
+              operationId: [`Undone at ${entry.undoneAt}`],
+            });
+          }
+          entries = [entry];
+        } else {
+          entries = await context.journal.recent(context.tenant, count);
+        }
+
+        if (dryRun) {
+          return formatDryRun({
+            action: 'Undo',
+            target: { type: 'journal', id: context.tenant },
+            affected: { operations: entries.length },
+            effects: entries.map(
+              (entry) =>
+                `Revert ${entry.tool} (${entry.id}, ${entry.createdAt}): ${entry.description}`
+            ),
+          });
+        }
+
+        const summarize = (entry: JournalEntry) => ({
+          id: entry.id,
+          tool: entry.tool,
+          description: entry.description,
+        });
+        const undone: ReturnType<typeof summarize>[] = [];
+        let failed: (ReturnType<typeof summarize> & { error: string }) | undefined;
+        for (const entry of entries) {
+          try {
+            await applyInverse(client, entry.inverse);
+          } catch (error) {
+            failed = {
+              ...summarize(entry),
+              error: error instanceof Error ? error.message : String(error),
+            };
+            break;
+          }
+          await context.journal.put({ ...entry, undoneAt: new Date().toISOString() });
+          undone.push(summarize(entry));
+        }
+
+        let message = `Reverted ${undone.length} operation${undone.length === 1 ? '' : 's'}`;
+        if (entries.length === 0) {
+          message = 'Nothing to undo';
+        } else if (failed) {
+          message = `Reverted ${undone.length} of ${entries.length} operations; stopped at ${failed.id}`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: !failed, message, undone, ...(failed && { failed }) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
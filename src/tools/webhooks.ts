@@ -7,12 +7,219 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { TrelloClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type { TrelloModelRef, TrelloWebhook } from '../types/entities.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatCursorResponse, formatError, formatResponse } from '../utils/formatters.js';
+import { decodeCursor, encodeCursor } from '../utils/pagination.js';
+import type { EventPosition } from '../webhooks/event-store.js';
+import { paginationParams, type ToolContext } from './context.js';
+import { dryRunParam, formatDryRun, previewDeleteWebhook } from './dry-run.js';
+
+type WebhookIssue = 'failing' | 'inactive' | 'orphaned' | 'inaccessible' | 'duplicate';
+
+const REPAIR_ACTIONS = ['reactivate', 'deduplicate', 'recreate', 'delete_orphaned'] as const;
+type RepairAction = (typeof REPAIR_ACTIONS)[number];
+
+interface WebhookFinding {
+  webhookId: string;
+  idModel: string;
+  callbackURL: string;
+  description: string;
+  issues: WebhookIssue[];
+  consecutiveFailures: number;
+  failingSince: string | null;
+  /** Webhook kept in place of this duplicate */
+  duplicateOf?: string;
+  repair?: {
+    action: RepairAction;
+    /** 'planned' when the audit ran as a dry run */
+    status: 'done' | 'failed' | 'skipped' | 'planned';
+    /** ID of the replacement webhook when recreated */
+    newWebhookId?: string;
+    error?: string;
+  };
+}
+
+/** Result of looking up a watched model; see TrelloClient.findModel */
+type ModelLookup = TrelloModelRef | 'inaccessible' | null;
+
+/** How long to wait for a callback URL to answer the recreate check */
+const CALLBACK_CHECK_TIMEOUT_MS = 10000;
+
+/** Models looked up in parallel when checking for orphaned webhooks */
+const MODEL_LOOKUP_CONCURRENCY = 5;
+
+/** Host names that only resolve inside a private network */
+const PRIVATE_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/;
+
+/**
+ * Find failing, inactive, orphaned and duplicate webhooks.
+ *
+ * Webhooks on the same idModel and callbackURL are duplicates; the active one
+ * with the fewest failures is kept. Orphans are only detected when `models`
+ * is given (null entries are deleted models). Models the token may not read
+ * are reported as inaccessible, since they may still exist.
+ */
+function auditWebhooks(
+  webhooks: TrelloWebhook[],
+  models?: Map<string, ModelLookup>
+): WebhookFinding[] {
+  const kept = new Map<string, TrelloWebhook>();
+  const ranked = [...webhooks].sort(
+    (a, b) => Number(b.active) - Number(a.active) || a.consecutiveFailures - b.consecutiveFailures
+  );
+  for (const webhook of ranked) {
+    const key = `${webhook.idModel}|${webhook.callbackURL}`;
+    if (!kept.has(key)) kept.set(key, webhook);
+  }
+
+  const findings: WebhookFinding[] = [];
+  for (const webhook of webhooks) {
+    const issues: WebhookIssue[] = [];
+    if (webhook.consecutiveFailures > 0) issues.push('failing');
+    if (!webhook.active) issues.push('inactive');
+    if (models?.get(webhook.idModel) === null) issues.push('orphaned');
+    if (models?.get(webhook.idModel) === 'inaccessible') issues.push('inaccessible');
+
+    const keeper = kept.get(`${webhook.idModel}|${webhook.callbackURL}`);
+    if (keeper && keeper.id !== webhook.id) issues.push('duplicate');
+
+    if (issues.length > 0) {
+      findings.push({
+        webhookId: webhook.id,
+        idModel: webhook.idModel,
+        callbackURL: webhook.callbackURL,
+        description: webhook.description,
+        issues,
+        consecutiveFailures: webhook.consecutiveFailures,
+        failingSince: webhook.firstConsecutiveFailDate,
+        ...(issues.includes('duplicate') && { duplicateOf: keeper?.id }),
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Pick the repair for a finding. Each webhook gets at most one action, and
+ * removing a webhook takes precedence over fixing it.
+ */
+function chooseRepair(finding: WebhookFinding, allowed: RepairAction[]): RepairAction | undefined {
+  const { issues } = finding;
+  if (issues.includes('orphaned')) {
+    return allowed.includes('delete_orphaned') ? 'delete_orphaned' : undefined;
+  }
+  if (issues.includes('duplicate')) {
+    return allowed.includes('deduplicate') ? 'deduplicate' : undefined;
+  }
+  if (issues.includes('failing') && allowed.includes('recreate')) return 'recreate';
+  if (issues.includes('inactive') && allowed.includes('reactivate')) return 'reactivate';
+  return undefined;
+}
+
+/**
+ * Why a callback URL may not be requested from the Worker, or undefined when
+ * it may. Callback URLs are registered by anyone holding the token, so only
+ * this Worker's own origin and https URLs on public host names are checked.
+ */
+function unprobeableCallback(callbackURL: string, ownOrigin: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(callbackURL);
+  } catch {
+    return 'Callback URL is not a valid URL';
+  }
+  if (url.origin === ownOrigin) return undefined;
+  if (url.protocol !== 'https:') return 'Callback URL is not https, so it was not checked';
+  // IP literals (IPv6 ones are bracketed) may point into a private network
+  const hostname = url.hostname.toLowerCase();
+  if (
+    hostname.startsWith('[') ||
+    /^[\d.]+$/.test(hostname) ||
+    !hostname.includes('.') ||
+    PRIVATE_HOSTNAME.test(hostname)
+  ) {
+    return 'Callback URL is not on a public host name, so it was not checked';
+  }
+  return undefined;
+}
+
+/**
+ * Check that a callback URL answers Trello's HEAD request with a 2xx status.
+ * Returns the reason it does not, or undefined when it does.
+ */
+async function checkCallback(callbackURL: string, ownOrigin: string): Promise<string | undefined> {
+  const refused = unprobeableCallback(callbackURL, ownOrigin);
+  if (refused) return refused;
+  try {
+    // Redirects are not followed, so a public URL cannot forward the check inward
+    const response = await fetch(callbackURL, {
+      method: 'HEAD',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(CALLBACK_CHECK_TIMEOUT_MS),
+    });
+    return response.ok ? undefined : `Callback URL answered HEAD with ${response.status}`;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return `Callback URL did not answer HEAD: ${message}`;
+  }
+}
+
+/**
+ * Apply a repair action to the webhook behind a finding
+ */
+async function applyRepair(
+  client: TrelloClient,
+  finding: WebhookFinding,
+  action: RepairAction,
+  ownOrigin: string
+): Promise<NonNullable<WebhookFinding['repair']>> {
+  try {
+    switch (action) {
+      case 'delete_orphaned':
+      case 'deduplicate':
+        await client.deleteWebhook(finding.webhookId);
+        return { action, status: 'done' };
+      case 'reactivate':
+        await client.updateWebhook(finding.webhookId, { active: true });
+        return { action, status: 'done' };
+      case 'recreate': {
+        // Trello checks the callback before creating a webhook, so a callback
+        // that is down would leave the webhook deleted and not recreated
+        const unreachable = await checkCallback(finding.callbackURL, ownOrigin);
+        if (unreachable) {
+          return { action, status: 'skipped', error: unreachable };
+        }
+        // Trello rejects a second webhook for the same model and callback,
+        // so the old one has to go first
+        await client.deleteWebhook(finding.webhookId);
+        const webhook = await client.createWebhook({
+          callbackURL: finding.callbackURL,
+          idModel: finding.idModel,
+          description: finding.description,
+          active: true,
+        });
+        return { action, status: 'done', newWebhookId: webhook.id };
+      }
+    }
+  } catch (error) {
+    return {
+      action,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
 
 /**
  * Register all webhook-related tools
  */
-export function registerWebhookTools(server: McpServer, client: TrelloClient): void {
+export function registerWebhookTools(
+  server: McpServer,
+  client: TrelloClient,
+  context: ToolContext
+): void {
   // ===========================================================================
   // List Webhooks
   // ===========================================================================
@@ -28,7 +235,7 @@ Args:
     async ({ format }) => {
       try {
         const webhooks = await client.getWebhooks();
-        return formatResponse(webhooks, format, 'webhooks');
+        return formatResponse(webhooks, format, 'webhooks', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -52,7 +259,7 @@ Args:
     async ({ webhookId, format }) => {
       try {
         const webhook = await client.getWebhook(webhookId);
-        return formatResponse(webhook, format, 'webhook');
+        return formatResponse(webhook, format, 'webhook', context.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -67,19 +274,22 @@ Args:
     `Create a new webhook to receive notifications.
 
 Args:
-  - callbackURL: URL to receive webhook events (required)
+  - callbackURL: URL to receive webhook events (default: this server's receiver, whose events are returned by trello_get_recent_events)
   - idModel: ID of the model to watch (board, list, card, etc.) (required)
   - description: Description of the webhook
   - active: Whether the webhook is active (default: true)`,
     {
-      callbackURL: z.string().url().describe('Callback URL'),
+      callbackURL: z.string().url().optional().describe('Callback URL'),
       idModel: z.string().describe('Model ID to watch'),
       description: z.string().optional().describe('Description'),
       active: z.boolean().default(true).describe('Active status'),
     },
-    async (input) => {
+    async ({ callbackURL, ...input }) => {
       try {
-        const webhook = await client.createWebhook(input);
+        const webhook = await client.createWebhook({
+          ...input,
+          callbackURL: callbackURL ?? context.webhookCallbackUrl,
+        });
         return {
           content: [
             {
@@ -139,12 +349,17 @@ Args:
     `Delete a webhook.
 
 Args:
-  - webhookId: The ID of the webhook to delete`,
+  - webhookId: The ID of the webhook to delete
+  - dryRun: Only describe what would change (default: false, or the X-Trello-Dry-Run header)`,
     {
       webhookId: z.string().describe('Webhook ID'),
+      dryRun: dryRunParam(context),
     },
-    async ({ webhookId }) => {
+    async ({ webhookId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(await previewDeleteWebhook(client, webhookId));
+        }
         await client.deleteWebhook(webhookId);
         return {
           content: [
@@ -159,4 +374,175 @@ Args:
       }
     }
   );
+
+  // ===========================================================================
+  // Get Recent Events
+  // ===========================================================================
+  server.tool(
+    'trello_get_recent_events',
+    `Get webhook events received by this server, oldest first.
+
+Only events delivered to this server's webhook receiver are returned, so the
+watched board or card needs a webhook created with trello_create_webhook
+(without a callbackURL). Events are kept for 7 days.
+
+Args:
+  - since: Only return events after this ISO 8601 timestamp
+  - types: Action types to include (e.g. updateCard, commentCard, createCard)
+  - boardId: Only return events on this board
+  - cardId: Only return events on this card
+  - modelId: Only return events delivered by a webhook on this model (board,
+    list, card, member or workspace ID)
+  - limit: Max events to return
+  - cursor: nextCursor from a previous call, to fetch the next page
+  - format: Response format
+
+Returns nextCursor when more events are available; pass it as cursor (with the
+same filters) to continue.`,
+    {
+      since: z.string().datetime({ offset: true }).optional().describe('ISO 8601 timestamp'),
+      types: z.array(z.string()).optional().describe('Action types to include'),
+      boardId: z.string().optional().describe('Board ID'),
+      cardId: z.string().optional().describe('Card ID'),
+      modelId: z.string().optional().describe('Watched model ID'),
+      limit: paginationParams(context).limit,
+      cursor: z.string().optional().describe('nextCursor from a previous call'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ since, types, boardId, cardId, modelId, limit, cursor, format }) => {
+      try {
+        const after = cursor ? decodeCursor<EventPosition>(cursor) : undefined;
+        if (after && (typeof after.id !== 'string' || Number.isNaN(Date.parse(after.date)))) {
+          throw new ValidationError('Invalid events cursor', {
+            cursor: ['Pass the nextCursor value returned by a previous call unchanged'],
+          });
+        }
+        const { events, hasMore } = await context.eventStore.query(context.tenant, {
+          since: since ? new Date(since).toISOString() : undefined,
+          after,
+          types,
+          boardId,
+          cardId,
+          modelId,
+          limit,
+        });
+        // Events can share a timestamp, so the cursor holds both date and ID
+        return formatCursorResponse(
+          events,
+          hasMore,
+          (event) => encodeCursor({ date: event.date, id: event.id }),
+          format,
+          'events',
+          context.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Audit Webhooks
+  // ===========================================================================
+  server.tool(
+    'trello_audit_webhooks',
+    `Audit the webhooks of the current token and optionally repair them.
+
+Reports webhooks that are failing (consecutive delivery failures), inactive,
+orphaned (the watched model was deleted), inaccessible (the token may not read
+the watched model, which may still exist) or duplicated (same idModel and
+callbackURL as another webhook). Inaccessible webhooks are never deleted.
+
+Repair actions, applied only when listed in repair:
+  - delete_orphaned: Delete orphaned webhooks
+  - deduplicate: Delete duplicates, keeping the active one with the fewest failures
+  - recreate: Delete and recreate failing webhooks to reset their failure count,
+    skipped when the callback URL does not answer a HEAD request. Only callbacks
+    on this server or on public https hosts are checked; others are skipped
+  - reactivate: Reactivate inactive webhooks
+
+If recreating fails after the old webhook was deleted, the finding keeps its
+callbackURL, idModel and description so it can be recreated by hand. Use
+dryRun to see which repairs would be applied.
+
+Args:
+  - repair: Repair actions to apply (omit to only report)
+  - checkModels: Look up each watched model to detect orphans (default: true)
+  - dryRun: Only report the repairs that would be applied (default: false, or the X-Trello-Dry-Run header)`,
+    {
+      repair: z.array(z.enum(REPAIR_ACTIONS)).optional().describe('Repair actions to apply'),
+      checkModels: z.boolean().default(true).describe('Detect orphaned webhooks'),
+      dryRun: dryRunParam(context),
+    },
+    async ({ repair, checkModels, dryRun }) => {
+      try {
+        const webhooks = await client.getWebhooks();
+
+        let models: Map<string, ModelLookup> | undefined;
+        if (checkModels) {
+          const ids = [...new Set(webhooks.map((webhook) => webhook.idModel))];
+          const resolved = await mapWithConcurrency(ids, MODEL_LOOKUP_CONCURRENCY, (id) =>
+            client.findModel(id)
+          );
+          models = new Map();
+          for (const [i, result] of resolved.entries()) {
+            if (!result.ok) throw result.error;
+            models.set(ids[i], result.value);
+          }
+        }
+
+        const findings = auditWebhooks(webhooks, models);
+        for (const finding of findings) {
+          const action = chooseRepair(finding, repair ?? []);
+          if (action) {
+            finding.repair = dryRun
+              ? { action, status: 'planned' }
+              : await applyRepair(
+                  client,
+                  finding,
+                  action,
+                  new URL(context.webhookCallbackUrl).origin
+                );
+          }
+        }
+
+        const count = (issue: WebhookIssue) =>
+          findings.filter((finding) => finding.issues.includes(issue)).length;
+        const summary = {
+          total: webhooks.length,
+          healthy: webhooks.length - findings.length,
+          failing: count('failing'),
+          inactive: count('inactive'),
+          orphaned: checkModels ? count('orphaned') : null,
+          inaccessible: checkModels ? count('inaccessible') : null,
+          duplicate: count('duplicate'),
+          repaired: findings.filter((finding) => finding.repair?.status === 'done').length,
+          repairFailed: findings.filter((finding) => finding.repair?.status === 'failed').length,
+          repairSkipped: findings.filter((finding) => finding.repair?.status === 'skipped').length,
+          repairPlanned: findings.filter((finding) => finding.repair?.status === 'planned').length,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: summary.repairFailed === 0,
+                  message: `Audited ${webhooks.length} webhooks, ${findings.length} with issues`,
+                  dryRun,
+                  summary,
+                  findings,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
@@ -0,0 +1,145 @@
+/**
+ * Board Archive Types
+ *
+ * Schema of the portable JSON document produced by trello_export_board.
+ * Fields are copied explicitly from the Trello entities, so the schema only
+ * changes with BOARD_ARCHIVE_VERSION, not with the Trello API.
+ */
+
+import type { TrelloBoardPrefs, TrelloColor, TrelloCustomField } from './entities.js';
+
+/** Identifies archive documents */
+export const BOARD_ARCHIVE_FORMAT = 'trello-board-archive';
+
+/** Current schema version; bumped on any incompatible change */
+export const BOARD_ARCHIVE_VERSION = 1;
+
+export interface BoardArchive {
+  format: typeof BOARD_ARCHIVE_FORMAT;
+  version: typeof BOARD_ARCHIVE_VERSION;
+  /** When the archive was created (ISO 8601) */
+  exportedAt: string;
+  board: ArchiveBoard;
+  members: ArchiveMember[];
+  labels: ArchiveLabel[];
+  customFields: ArchiveCustomField[];
+  /** Lists in board order, including archived lists */
+  lists: ArchiveList[];
+  /** Cards in board order (by list, then position) */
+  cards: ArchiveCard[];
+}
+
+export interface ArchiveBoard {
+  id: string;
+  name: string;
+  desc: string;
+  closed: boolean;
+  url: string;
+  idOrganization: string | null;
+  prefs: Pick<
+    TrelloBoardPrefs,
+    | 'permissionLevel'
+    | 'voting'
+    | 'comments'
+    | 'invitations'
+    | 'selfJoin'
+    | 'cardCovers'
+    | 'hideVotes'
+    | 'cardAging'
+    | 'background'
+    | 'calendarFeedEnabled'
+  >;
+}
+
+export interface ArchiveMember {
+  id: string;
+  username: string;
+  fullName: string;
+}
+
+export interface ArchiveLabel {
+  id: string;
+  name: string;
+  color: TrelloColor;
+}
+
+export interface ArchiveCustomField {
+  id: string;
+  name: string;
+  type: TrelloCustomField['type'];
+  pos: number;
+  cardFront: boolean;
+  /** Options of list fields */
+  options: { id: string; text: string; color: TrelloColor; pos: number }[];
+}
+
+export interface ArchiveList {
+  id: string;
+  name: string;
+  closed: boolean;
+  pos: number;
+}
+
+export interface ArchiveCard {
+  id: string;
+  idList: string;
+  name: string;
+  desc: string;
+  closed: boolean;
+  pos: number;
+  due: string | null;
+  start: string | null;
+  dueComplete: boolean;
+  idLabels: string[];
+  idMembers: string[];
+  url: string;
+  customFieldItems: ArchiveCustomFieldItem[];
+  checklists: ArchiveChecklist[];
+  /** Comments, oldest first */
+  comments: ArchiveComment[];
+  /** Attachment metadata; uploaded file contents are not included */
+  attachments: ArchiveAttachment[];
+}
+
+export interface ArchiveCustomFieldItem {
+  idCustomField: string;
+  /** Selected option of list fields */
+  idValue: string | null;
+  /** Value of other field types, e.g. { text: '...' } or { checked: 'true' } */
+  value: Record<string, string> | null;
+}
+
+export interface ArchiveChecklist {
+  id: string;
+  name: string;
+  pos: number;
+  checkItems: ArchiveCheckItem[];
+}
+
+export interface ArchiveCheckItem {
+  id: string;
+  name: string;
+  state: 'complete' | 'incomplete';
+  pos: number;
+  due: string | null;
+  idMember: string | null;
+}
+
+export interface ArchiveComment {
+  id: string;
+  date: string;
+  text: string;
+  idMemberCreator: string;
+  /** Author as shown when the archive was made; null if the member is gone */
+  author: { username: string; fullName: string } | null;
+}
+
+export interface ArchiveAttachment {
+  id: string;
+  name: string;
+  url: string;
+  mimeType: string;
+  bytes: number | null;
+  isUpload: boolean;
+  date: string;
+}
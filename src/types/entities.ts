@@ -8,7 +8,7 @@
 // Response Format
 // =============================================================================
 
-export type ResponseFormat = 'json' | 'markdown';
+export type ResponseFormat = 'json' | 'markdown' | 'csv';
 
 // =============================================================================
 // Board
@@ -168,6 +168,12 @@ export interface TrelloCard {
   cover?: TrelloCardCover;
   isTemplate?: boolean;
   cardRole?: string | null;
+  /** Included when requested with checklists=all */
+  checklists?: TrelloChecklist[];
+  /** Included when requested with attachments=true */
+  attachments?: TrelloAttachment[];
+  /** Included when requested with customFieldItems=true */
+  customFieldItems?: TrelloCustomFieldItem[];
 }
 
 export interface TrelloCardBadges {
@@ -236,6 +242,7 @@ export interface TrelloCardUpdateInput {
     color?: TrelloColor;
     brightness?: 'light' | 'dark';
     size?: 'normal' | 'full';
+    idAttachment?: string;
   };
 }
 
@@ -419,6 +426,17 @@ export interface TrelloActionData {
   organization?: { id: string; name: string };
 }
 
+export interface TrelloActionQuery {
+  /** Maximum number of actions to return (Trello allows up to 1000) */
+  limit?: number;
+  /** Only return actions created before this action ID or ISO 8601 date */
+  before?: string;
+  /** Only return actions created after this action ID or ISO 8601 date */
+  since?: string;
+  /** Action types to include (e.g. commentCard, updateCard, createCard) */
+  filter?: string[];
+}
+
 // =============================================================================
 // Attachment
 // =============================================================================
@@ -450,7 +468,10 @@ export interface TrelloAttachmentPreview {
 
 export interface TrelloAttachmentCreateInput {
   name?: string;
+  /** Base64-encoded file content to upload */
   file?: string;
+  /** File name for uploaded content */
+  fileName?: string;
   mimeType?: string;
   url?: string;
   setCover?: boolean;
@@ -541,6 +562,74 @@ export interface TrelloWebhookUpdateInput {
   active?: boolean;
 }
 
+/** Model types a webhook can watch */
+export type TrelloModelType = 'board' | 'list' | 'card' | 'organization' | 'member';
+
+/**
+ * A model resolved from its ID alone
+ */
+export interface TrelloModelRef {
+  type: TrelloModelType;
+  id: string;
+  name: string;
+}
+
+/**
+ * Body of a webhook delivery sent by Trello to a callback URL
+ */
+export interface TrelloWebhookPayload {
+  action: TrelloAction;
+  model: { id: string; name?: string; [key: string]: unknown };
+  webhook?: {
+    id: string;
+    idModel: string;
+    callbackURL: string;
+    description: string;
+    active: boolean;
+  };
+}
+
+/**
+ * A webhook delivery normalized for storage and querying
+ */
+export interface TrelloWebhookEvent {
+  /** Action ID (unique per event) */
+  id: string;
+  /** Tenant the delivery was addressed to */
+  tenant: string;
+  /** ID of the model the webhook watches */
+  idModel: string;
+  /** ID of the webhook that delivered the event, when provided */
+  idWebhook: string | null;
+  /** Action type, e.g. updateCard or commentCard */
+  type: string;
+  /** When the action happened (ISO 8601) */
+  date: string;
+  /** When the delivery was received (ISO 8601) */
+  receivedAt: string;
+  boardId: string | null;
+  listId: string | null;
+  cardId: string | null;
+  idMemberCreator: string;
+  action: TrelloAction;
+}
+
+// =============================================================================
+// Batch
+// =============================================================================
+
+/**
+ * Result of one GET request made through /batch
+ */
+export interface TrelloBatchResult<T = unknown> {
+  /** Request path, e.g. /cards/{id} */
+  path: string;
+  ok: boolean;
+  status: number;
+  data?: T;
+  error?: string;
+}
+
 // =============================================================================
 // Search
 // =============================================================================
@@ -556,6 +645,24 @@ export interface TrelloSearchResult {
   cards?: TrelloCard[];
   members?: TrelloMember[];
   organizations?: TrelloOrganization[];
+  /** Included when modelTypes contains actions; comments are matched on their text */
+  actions?: TrelloAction[];
+}
+
+/**
+ * An action matched by search, with the card and board it belongs to
+ */
+export interface TrelloActionSearchHit {
+  id: string;
+  type: string;
+  date: string;
+  /** Comment text, when the action is a comment */
+  text: string | null;
+  idMemberCreator: string;
+  memberCreator: { username: string; fullName: string } | null;
+  card: { id: string; name: string; url: string | null } | null;
+  board: { id: string; name: string } | null;
+  list: { id: string; name: string } | null;
 }
 
 // =============================================================================
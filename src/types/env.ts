@@ -11,8 +11,11 @@
  * Request Headers:
  * - X-Trello-API-Key: Trello API key (required)
  * - X-Trello-Token: Trello API token (required)
+ * - X-Trello-Dry-Run: Preview destructive tools by default (optional)
  */
 
+import { sha256Hex } from '../utils/crypto.js';
+
 // =============================================================================
 // Tenant Credentials (parsed from request headers)
 // =============================================================================
@@ -37,6 +40,23 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
   };
 }
 
+/**
+ * Parse the tenant's default for dry-run mode (X-Trello-Dry-Run header)
+ */
+export function parseDryRunDefault(request: Request): boolean {
+  const value = request.headers.get('X-Trello-Dry-Run')?.trim().toLowerCase();
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Stable, non-secret identifier for a tenant, used in webhook callback URLs
+ * and as the key for per-tenant state
+ */
+export async function getTenantId(credentials: TenantCredentials): Promise<string> {
+  const hash = await sha256Hex(`${credentials.apiKey}:${credentials.token}`);
+  return hash.slice(0, 32);
+}
+
 /**
  * Validate that required credentials are present
  */
@@ -67,6 +87,12 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Trello app secret used to verify webhook signatures (wrangler secret) */
+  TRELLO_WEBHOOK_SECRET?: string;
+
+  /** JSON object mapping tenant IDs to app secrets, for tenants with their own Trello app */
+  TRELLO_WEBHOOK_SECRETS?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
@@ -77,6 +103,18 @@ export interface Env {
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
+  /** KV namespace for received webhook events (optional) */
+  WEBHOOK_EVENTS?: KVNamespace;
+
+  /** KV namespace for the per-tenant undo journal (optional) */
+  UNDO_JOURNAL?: KVNamespace;
+
+  /** KV namespace for exported board archives and import progress (optional) */
+  ARCHIVE_IMPORTS?: KVNamespace;
+
+  /** Durable Object namespace for per-tenant rate limit buckets (optional) */
+  RATE_LIMITER?: DurableObjectNamespace;
+
   /** Cloudflare AI binding (optional) */
   AI?: Ai;
 }
@@ -117,3 +155,18 @@ export function getDefaultPageSize(env: Env): number {
 export function getMaxPageSize(env: Env): number {
   return getEnvNumber(env, 'MAX_PAGE_SIZE', 100);
 }
+
+/**
+ * Get the secret used to verify webhook deliveries for a tenant
+ */
+export function getWebhookSecret(env: Env, tenant: string): string | undefined {
+  if (env.TRELLO_WEBHOOK_SECRETS) {
+    try {
+      const secrets = JSON.parse(env.TRELLO_WEBHOOK_SECRETS) as Record<string, string>;
+      if (secrets[tenant]) return secrets[tenant];
+    } catch {
+      // Fall through to the shared secret
+    }
+  }
+  return env.TRELLO_WEBHOOK_SECRET;
+}
@@ -1,2 +1,3 @@
+export * from './archive.js';
 export * from './entities.js';
 export * from './env.js';
@@ -0,0 +1,167 @@
+/**
+ * Undo Journal
+ *
+ * Per-tenant log of the changes made through mutating tools. Each entry holds
+ * the inverse operation that restores the state captured before the change.
+ * Entries are stored in the UNDO_JOURNAL KV namespace when it is bound,
+ * otherwise in memory scoped to the Worker isolate (local development and
+ * tests).
+ */
+
+import type {
+  TrelloBoardUpdateInput,
+  TrelloCardUpdateInput,
+  TrelloCheckItemUpdateInput,
+  TrelloLabelUpdateInput,
+  TrelloListUpdateInput,
+} from '../types/entities.js';
+import type { Env } from '../types/env.js';
+
+/** How long journal entries are kept */
+export const JOURNAL_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+/** Maximum entries kept per tenant by the in-memory store */
+export const MEMORY_JOURNAL_LIMIT = 200;
+
+/** Largest timestamp that fits the 13-digit ID prefix */
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+/**
+ * A change that reverts a recorded operation
+ */
+export type InverseOperation =
+  | { type: 'updateBoard'; boardId: string; input: TrelloBoardUpdateInput }
+  | { type: 'updateList'; listId: string; input: TrelloListUpdateInput }
+  | { type: 'updateCard'; cardId: string; input: TrelloCardUpdateInput }
+  | { type: 'addLabelToCard'; cardId: string; labelId: string }
+  | { type: 'removeLabelFromCard'; cardId: string; labelId: string }
+  | { type: 'addMemberToCard'; cardId: string; memberId: string }
+  | { type: 'removeMemberFromCard'; cardId: string; memberId: string }
+  | { type: 'updateComment'; cardId: string; actionId: string; text: string }
+  | { type: 'deleteComment'; cardId: string; actionId: string }
+  | { type: 'deleteAttachment'; cardId: string; attachmentId: string }
+  | {
+      type: 'setCardCustomField';
+      cardId: string;
+      customFieldId: string;
+      value: Record<string, unknown>;
+    }
+  | { type: 'updateLabel'; labelId: string; input: TrelloLabelUpdateInput }
+  | { type: 'deleteLabel'; labelId: string }
+  | { type: 'updateChecklist'; checklistId: string; name: string }
+  | { type: 'deleteChecklist'; checklistId: string }
+  | {
+      type: 'updateCheckItem';
+      cardId: string;
+      checkItemId: string;
+      input: TrelloCheckItemUpdateInput;
+    }
+  | { type: 'deleteCheckItem'; checklistId: string; checkItemId: string }
+  /** Independent steps, e.g. one per card of a bulk change */
+  | { type: 'sequence'; operations: InverseOperation[] };
+
+export interface JournalEntry {
+  /** Sortable ID; newer entries sort first */
+  id: string;
+  tenant: string;
+  /** Tool that made the change */
+  tool: string;
+  /** What the change did, e.g. 'Moved card "Fix login" to list 5f...' */
+  description: string;
+  createdAt: string;
+  inverse: InverseOperation;
+  /** Set once the entry has been undone */
+  undoneAt?: string;
+}
+
+/**
+ * Generate an entry ID that sorts newest first as a string
+ */
+export function createJournalEntryId(now = Date.now()): string {
+  const prefix = String(MAX_TIMESTAMP - now).padStart(13, '0');
+  return `${prefix}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface JournalStore {
+  put(entry: JournalEntry): Promise<void>;
+  get(tenant: string, id: string): Promise<JournalEntry | null>;
+  /** Most recent entries that have not been undone, newest first */
+  recent(tenant: string, limit: number): Promise<JournalEntry[]>;
+}
+
+/**
+ * In-memory journal store. Keeps the most recent entries of each tenant.
+ */
+export class MemoryJournalStore implements JournalStore {
+  private entries = new Map<string, JournalEntry[]>();
+
+  async put(entry: JournalEntry): Promise<void> {
+    const entries = (this.entries.get(entry.tenant) ?? []).filter((e) => e.id !== entry.id);
+    entries.push(entry);
+    entries.sort((a, b) => a.id.localeCompare(b.id));
+    this.entries.set(entry.tenant, entries.slice(0, MEMORY_JOURNAL_LIMIT));
+  }
+
+  async get(tenant: string, id: string): Promise<JournalEntry | null> {
+    return this.entries.get(tenant)?.find((entry) => entry.id === id) ?? null;
+  }
+
+  async recent(tenant: string, limit: number): Promise<JournalEntry[]> {
+    return (this.entries.get(tenant) ?? []).filter((entry) => !entry.undoneAt).slice(0, limit);
+  }
+}
+
+/**
+ * Journal store backed by a KV namespace.
+ *
+ * Keys have the form journal:<tenant>:<entryId>, so listing a tenant's prefix
+ * returns the newest entries first. Each key carries whether the entry was
+ * undone, so only pending entries are read.
+ */
+export class KvJournalStore implements JournalStore {
+  constructor(private kv: KVNamespace) {}
+
+  async put(entry: JournalEntry): Promise<void> {
+    await this.kv.put(`journal:${entry.tenant}:${entry.id}`, JSON.stringify(entry), {
+      expirationTtl: JOURNAL_RETENTION_SECONDS,
+      metadata: { undone: Boolean(entry.undoneAt) },
+    });
+  }
+
+  async get(tenant: string, id: string): Promise<JournalEntry | null> {
+    return this.kv.get<JournalEntry>(`journal:${tenant}:${id}`, 'json');
+  }
+
+  async recent(tenant: string, limit: number): Promise<JournalEntry[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<{ undone: boolean }>({
+        prefix: `journal:${tenant}:`,
+        cursor,
+      });
+      for (const key of page.keys) {
+        if (!key.metadata?.undone) names.push(key.name);
+      }
+      cursor = page.list_complete || names.length >= limit ? undefined : page.cursor;
+    } while (cursor);
+
+    const values = await Promise.all(
+      names.slice(0, limit).map((name) => this.kv.get<JournalEntry>(name, 'json'))
+    );
+    return values.filter((entry): entry is JournalEntry => entry !== null);
+  }
+}
+
+const sharedMemoryStore = new MemoryJournalStore();
+
+/**
+ * Pick the journal store for the current environment
+ */
+export function createJournalStore(env: Env): JournalStore {
+  return env.UNDO_JOURNAL ? new KvJournalStore(env.UNDO_JOURNAL) : sharedMemoryStore;
+}
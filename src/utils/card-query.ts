@@ -0,0 +1,458 @@
+/**
+ * Card Query Language
+ *
+ * A small expression language for filtering cards locally, for exact answers
+ * that do not depend on Trello's fuzzy search index.
+ *
+ * Terms are `field<op>value` and combine with AND (or whitespace), OR, NOT
+ * (or a leading -) and parentheses:
+ *
+ *   label:Bug AND (member:alice OR member:bob) due<+7d -list:Done
+ *   field["Story Points"]>=3 name~/^api/i
+ *
+ * Fields:
+ * - label, member, list         name (or label color, member username)
+ * - name, desc, text            card text; text is name and description
+ * - due, start                  ISO date, now, today, +7d/-2w/+12h, any, none
+ * - is                          open, archived, complete, incomplete, overdue
+ * - field[Name]                 custom field value, compared by field type
+ *
+ * Operators: `:` (contains for text, equals otherwise, same day for dates),
+ * `=`, `!=`, `<`, `<=`, `>`, `>=` and `~` (regular expression).
+ */
+
+import type { TrelloCard, TrelloCustomField, TrelloList, TrelloMember } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+
+export type CardQueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=' | '~';
+
+/** Lookups needed to evaluate a query against cards from one or more boards */
+export interface CardQueryContext {
+  lists: Map<string, TrelloList>;
+  members: Map<string, TrelloMember>;
+  customFields: Map<string, TrelloCustomField>;
+}
+
+export type CardPredicate = (card: TrelloCard, context: CardQueryContext) => boolean;
+
+interface Term {
+  field: string;
+  /** Custom field name for field[Name] */
+  key?: string;
+  operator: CardQueryOperator;
+  value: string;
+  regex?: RegExp;
+  /** Parsed timestamp for date comparisons */
+  time?: number;
+}
+
+type Node =
+  | { kind: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'not'; node: Node }
+  | { kind: 'term'; term: Term };
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number }
+  | { type: 'term'; term: Term; position: number };
+
+const NAME_FIELDS = ['label', 'member', 'list'];
+const TEXT_FIELDS = ['name', 'desc', 'text'];
+const DATE_FIELDS = ['due', 'start'];
+const STATES = ['open', 'archived', 'complete', 'incomplete', 'overdue'];
+
+const KEYWORD_PATTERN = /^(AND|OR|NOT)(?=[\s()]|$)/i;
+const TERM_PATTERN =
+  /^([A-Za-z]+)(?:\[(?:"([^"]*)"|([^\]]*))\])?(>=|<=|!=|:|=|<|>|~)("(?:[^"\\]|\\.)*"|\/(?:[^/\\]|\\.)*\/[a-z]*|[^\s()]+)/;
+const RELATIVE_PATTERN = /^([+-]\d+)([hdw])$/;
+const UNIT_MS: Record<string, number> = { h: 3600000, d: 86400000, w: 604800000 };
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a query expression into a predicate over cards
+ */
+export function parseCardQuery(expression: string): CardPredicate {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    throw new ValidationError('Query expression is empty');
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (peek()?.type === 'OR') {
+      index++;
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Node => {
+    let left = parseUnary();
+    for (let token = peek(); token && token.type !== 'OR' && token.type !== ')'; token = peek()) {
+      if (token.type === 'AND') index++;
+      left = { kind: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (peek()?.type === 'NOT') {
+      index++;
+      return { kind: 'not', node: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (token?.type === 'term') {
+      return { kind: 'term', term: token.term };
+    }
+    if (token?.type === '(') {
+      const node = parseOr();
+      if (tokens[index++]?.type !== ')') {
+        throw new ValidationError(`Missing ) for ( at position ${token.position}`);
+      }
+      return node;
+    }
+    throw new ValidationError(
+      token
+        ? `Unexpected ${token.type} at position ${token.position}`
+        : 'Query expression ends unexpectedly'
+    );
+  };
+
+  const root = parseOr();
+  if (index < tokens.length) {
+    throw new ValidationError(
+      `Unexpected ${tokens[index].type} at position ${tokens[index].position}`
+    );
+  }
+  return (card, context) => evaluate(root, card, context);
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char, position });
+      position++;
+      continue;
+    }
+    if (char === '-' && rest.length > 1 && !/\s/.test(rest[1])) {
+      tokens.push({ type: 'NOT', position });
+      position++;
+      continue;
+    }
+
+    const keyword = rest.match(KEYWORD_PATTERN);
+    if (keyword) {
+      tokens.push({ type: keyword[1].toUpperCase() as 'AND' | 'OR' | 'NOT', position });
+      position += keyword[0].length;
+      continue;
+    }
+
+    const match = rest.match(TERM_PATTERN);
+    if (!match) {
+      throw new ValidationError(
+        `Cannot parse query at position ${position}: "${rest.slice(0, 20)}"`
+      );
+    }
+    const [text, field, quotedKey, bareKey, operator, rawValue] = match;
+    tokens.push({
+      type: 'term',
+      term: buildTerm(
+        field.toLowerCase(),
+        quotedKey ?? bareKey,
+        operator as CardQueryOperator,
+        rawValue
+      ),
+      position,
+    });
+    position += text.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Validate a term and precompute its regex or timestamp
+ */
+function buildTerm(
+  field: string,
+  key: string | undefined,
+  operator: CardQueryOperator,
+  rawValue: string
+): Term {
+  const isFieldTerm = field === 'field';
+  if (isFieldTerm !== (key !== undefined)) {
+    throw new ValidationError(
+      isFieldTerm
+        ? 'Custom field terms need a name, e.g. field[Priority]:High'
+        : `Only field[...] takes a name, not ${field}`
+    );
+  }
+  const known = [...NAME_FIELDS, ...TEXT_FIELDS, ...DATE_FIELDS, 'is', 'field'];
+  if (!known.includes(field)) {
+    throw new ValidationError(`Unknown field "${field}". Use one of: ${known.join(', ')}`);
+  }
+
+  const ordering = ['<', '<=', '>', '>='].includes(operator);
+  if (ordering && [...NAME_FIELDS, ...TEXT_FIELDS, 'is'].includes(field)) {
+    throw new ValidationError(`Operator ${operator} cannot be used with ${field}`);
+  }
+  if (operator === '~' && [...DATE_FIELDS, 'is'].includes(field)) {
+    throw new ValidationError(`Operator ~ cannot be used with ${field}`);
+  }
+
+  const regexLiteral = rawValue.match(/^\/((?:[^/\\]|\\.)*)\/([a-z]*)$/);
+  const value = rawValue.startsWith('"') ? rawValue.slice(1, -1).replace(/\\(.)/g, '$1') : rawValue;
+  const term: Term = { field, key: key?.trim(), operator, value };
+
+  if (operator === '~') {
+    try {
+      // g and y make test() resume from the previous card's match position
+      term.regex = regexLiteral
+        ? new RegExp(regexLiteral[1], regexLiteral[2].replace(/[gy]/g, ''))
+        : new RegExp(value, 'i');
+    } catch (error) {
+      throw new ValidationError(
+        error instanceof Error ? error.message : `Invalid regular expression: ${value}`
+      );
+    }
+  }
+
+  if (field === 'is' && !STATES.includes(value.toLowerCase())) {
+    throw new ValidationError(`Unknown state "${value}". Use one of: ${STATES.join(', ')}`);
+  }
+
+  if (DATE_FIELDS.includes(field) && !isPresenceValue(value)) {
+    term.time = parseDateValue(value);
+  }
+
+  return term;
+}
+
+function isPresenceValue(value: string): boolean {
+  return value === 'any' || value === 'none';
+}
+
+/**
+ * Parse an ISO date, now, today or a relative offset such as +7d
+ */
+function parseDateValue(value: string): number {
+  if (value === 'now') return Date.now();
+  if (value === 'today') return startOfDay(Date.now());
+
+  const relative = value.match(RELATIVE_PATTERN);
+  if (relative) return Date.now() + Number(relative[1]) * UNIT_MS[relative[2]];
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError(
+      `Invalid date "${value}". Use an ISO date, now, today or an offset like +7d`
+    );
+  }
+  return time;
+}
+
+function startOfDay(time: number): number {
+  return time - (time % UNIT_MS.d);
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function evaluate(node: Node, card: TrelloCard, context: CardQueryContext): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluate(node.left, card, context) && evaluate(node.right, card, context);
+    case 'or':
+      return evaluate(node.left, card, context) || evaluate(node.right, card, context);
+    case 'not':
+      return !evaluate(node.node, card, context);
+    case 'term':
+      return evaluateTerm(node.term, card, context);
+  }
+}
+
+function evaluateTerm(term: Term, card: TrelloCard, context: CardQueryContext): boolean {
+  switch (term.field) {
+    case 'label':
+      return matchAny(
+        card.labels.flatMap((label) => [label.name, label.color ?? '']),
+        term
+      );
+    case 'member':
+      return matchAny(
+        card.idMembers.map((id) => context.members.get(id)?.username ?? id),
+        term,
+        (value) => value.replace(/^@/, '')
+      );
+    case 'list':
+      return matchText(context.lists.get(card.idList)?.name, term, false);
+    case 'name':
+      return matchText(card.name, term, true);
+    case 'desc':
+      return matchText(card.desc, term, true);
+    case 'text':
+      return matchText(`${card.name}\n${card.desc}`, term, true);
+    case 'due':
+      return matchDate(card.due, term);
+    case 'start':
+      return matchDate(card.start, term);
+    case 'is':
+      return matchState(card, term);
+    default:
+      return matchCustomField(card, term, context);
+  }
+}
+
+/**
+ * Match a set of names: `:`/`=` if any equals, `!=` if none does, `~` if any matches
+ */
+function matchAny(values: string[], term: Term, normalize = (value: string) => value): boolean {
+  if (term.regex) {
+    return values.some((value) => term.regex?.test(value));
+  }
+  const expected = normalize(term.value).toLowerCase();
+  const found = values.some((value) => value.toLowerCase() === expected);
+  return term.operator === '!=' ? !found : found;
+}
+
+function matchText(actual: string | undefined, term: Term, contains: boolean): boolean {
+  if (term.regex) {
+    return actual !== undefined && term.regex.test(actual);
+  }
+  const text = (actual ?? '').toLowerCase();
+  const expected = term.value.toLowerCase();
+  switch (term.operator) {
+    case ':':
+      return contains ? text.includes(expected) : text === expected;
+    case '!=':
+      return text !== expected;
+    default:
+      return text === expected;
+  }
+}
+
+function matchDate(actual: string | null | undefined, term: Term): boolean {
+  if (isPresenceValue(term.value)) {
+    const present = Boolean(actual);
+    const wanted = term.value === 'any';
+    return term.operator === '!=' ? present !== wanted : present === wanted;
+  }
+  if (!actual || term.time === undefined) {
+    return term.operator === '!=';
+  }
+
+  const time = Date.parse(actual);
+  switch (term.operator) {
+    case '<':
+      return time < term.time;
+    case '<=':
+      return time <= term.time;
+    case '>':
+      return time > term.time;
+    case '>=':
+      return time >= term.time;
+    case '!=':
+      return startOfDay(time) !== startOfDay(term.time);
+    default:
+      return startOfDay(time) === startOfDay(term.time);
+  }
+}
+
+function matchNumber(actual: number | undefined, term: Term): boolean {
+  const expected = Number(term.value);
+  if (actual === undefined || Number.isNaN(expected)) {
+    return term.operator === '!=';
+  }
+  switch (term.operator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '!=':
+      return actual !== expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function matchState(card: TrelloCard, term: Term): boolean {
+  switch (term.value.toLowerCase()) {
+    case 'open':
+      return !card.closed;
+    case 'archived':
+      return card.closed;
+    case 'complete':
+      return card.dueComplete;
+    case 'incomplete':
+      return !card.dueComplete;
+    default:
+      return Boolean(card.due) && !card.dueComplete && Date.parse(card.due ?? '') < Date.now();
+  }
+}
+
+/**
+ * Match a custom field by name, comparing values according to the field type
+ */
+function matchCustomField(card: TrelloCard, term: Term, context: CardQueryContext): boolean {
+  const name = term.key?.toLowerCase();
+  const item = card.customFieldItems?.find(
+    (candidate) => context.customFields.get(candidate.idCustomField)?.name.toLowerCase() === name
+  );
+  const field = item && context.customFields.get(item.idCustomField);
+
+  if (isPresenceValue(term.value) && !term.regex) {
+    const wanted = term.value === 'any';
+    return term.operator === '!=' ? Boolean(item) !== wanted : Boolean(item) === wanted;
+  }
+  if (!item || !field) {
+    // Unchecked checkboxes have no value item
+    return (
+      term.operator === '!=' || (term.value === 'false' && !term.regex && term.operator !== '~')
+    );
+  }
+
+  switch (field.type) {
+    case 'number':
+      return matchNumber(
+        item.value?.number === undefined ? undefined : Number(item.value.number),
+        term
+      );
+    case 'date':
+      return matchDate(item.value?.date, {
+        ...term,
+        time: term.time ?? parseDateValue(term.value),
+      });
+    case 'checkbox':
+      return matchText(item.value?.checked === 'true' ? 'true' : 'false', term, false);
+    case 'list': {
+      const option = field.options?.find((candidate) => candidate.id === item.idValue);
+      return matchText(option?.value.text, term, false);
+    }
+    default:
+      return matchText(item.value?.text, term, true);
+  }
+}
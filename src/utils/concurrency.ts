@@ -0,0 +1,36 @@
+/**
+ * Concurrency Utilities
+ *
+ * Bounded parallelism for operations that fan out over many entities.
+ */
+
+export type Settled<R> = { ok: true; value: R } | { ok: false; error: unknown };
+
+/**
+ * Run `operation` over `items` with at most `limit` operations in flight.
+ *
+ * Results are returned in input order. A failing item does not stop the
+ * others; its error is captured in the result instead.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  operation: (item: T, index: number) => Promise<R>
+): Promise<Settled<R>[]> {
+  const results: Settled<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await operation(items[index], index) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
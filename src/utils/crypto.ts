@@ -0,0 +1,51 @@
+/**
+ * Crypto Utilities
+ *
+ * Small wrappers around the Web Crypto API available in Workers.
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * SHA-256 digest of a string, hex encoded
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return toHex(digest);
+}
+
+/**
+ * HMAC of a string with the given hash algorithm, base64 encoded
+ */
+export async function hmacBase64(
+  algorithm: 'SHA-1' | 'SHA-256',
+  secret: string,
+  data: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: algorithm },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,91 @@
+/**
+ * CSV Utilities
+ *
+ * RFC 4180 style parsing and writing: quoted fields may contain delimiters,
+ * newlines and doubled quotes.
+ */
+
+/** Leading characters that make spreadsheets evaluate a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Guess the delimiter of a CSV document from its first line
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (delimiter: string) => firstLine.split(delimiter).length - 1;
+  const candidates = [',', '\t', ';'];
+  return candidates.reduce((best, candidate) =>
+    count(candidate) > count(best) ? candidate : best
+  );
+}
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  while (i < input.length) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Quote a field if it contains the delimiter, a quote or a line break.
+ * Text that a spreadsheet would run as a formula is prefixed with a quote;
+ * numbers such as -5 are left as they are.
+ */
+function csvField(value: string, delimiter: string): string {
+  const text = FORMULA_PREFIX.test(value) && Number.isNaN(Number(value)) ? `'${value}` : value;
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Write rows of fields as CSV text
+ */
+export function toCsv(rows: string[][], delimiter = ','): string {
+  return rows
+    .map((row) => row.map((value) => csvField(value, delimiter)).join(delimiter))
+    .join('\n');
+}
@@ -0,0 +1,38 @@
+/**
+ * Encoding Utilities
+ *
+ * Base64 helpers for binary content passed through MCP tool calls.
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * Decode base64 (optionally a data: URL) into bytes
+ *
+ * @param field - Name of the input field, used in validation errors
+ */
+export function decodeBase64(value: string, field = 'value'): Uint8Array {
+  const base64 = value.replace(/^data:[^,]*;base64,/, '').replace(/\s/g, '');
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch {
+    throw new ValidationError(`${field} is not valid base64`, {
+      [field]: ['Expected base64-encoded content'],
+    });
+  }
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  // Convert in chunks to stay below the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
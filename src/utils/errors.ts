@@ -11,6 +11,7 @@ export class ApiError extends Error {
   public statusCode?: number;
   public code: string;
   public retryable: boolean;
+  public attempts?: number;
 
   constructor(message: string, statusCode?: number, code?: string, retryable = false) {
     super(message);
@@ -44,6 +45,16 @@ export class AuthenticationError extends ApiError {
   }
 }
 
+/**
+ * Permission error
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(message, 403, 'FORBIDDEN', false);
+    this.name = 'ForbiddenError';
+  }
+}
+
 /**
  * Not found error
  */
@@ -96,6 +107,7 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       code: error.code,
       statusCode: error.statusCode,
       retryable: error.retryable,
+      ...(error.attempts !== undefined && { attempts: error.attempts }),
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
       ...(error instanceof ValidationError && { details: error.details }),
     };
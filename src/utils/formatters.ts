@@ -1,20 +1,25 @@
 /**
  * Response Formatting Utilities
  *
- * Helpers for formatting tool responses in JSON or Markdown.
+ * Helpers for formatting tool responses in JSON, Markdown or CSV.
  */
 
 import type {
   ResponseFormat,
+  TrelloAction,
   TrelloBoard,
   TrelloCard,
   TrelloChecklist,
+  TrelloCustomField,
+  TrelloCustomFieldItem,
   TrelloLabel,
   TrelloList,
   TrelloMember,
   TrelloOrganization,
 } from '../types/entities.js';
+import { toCsv } from './csv.js';
 import { ApiError, formatErrorForLogging } from './errors.js';
+import { buildPaginationInfo, type PaginatedResult, type PaginationInfo } from './pagination.js';
 
 /**
  * MCP tool response type
@@ -22,28 +27,277 @@ import { ApiError, formatErrorForLogging } from './errors.js';
  */
 export interface ToolResponse {
   [key: string]: unknown;
-  content: Array<{ type: 'text'; text: string }>;
+  content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }>;
   isError?: boolean;
 }
 
 /**
  * Format a successful response
+ *
+ * Responses longer than `characterLimit` drop trailing array items and say
+ * how many were kept; see fitDataToLimit.
  */
 export function formatResponse(
   data: unknown,
   format: ResponseFormat,
-  entityType: string
+  entityType: string,
+  characterLimit?: number
 ): ToolResponse {
-  if (format === 'markdown') {
-    return {
-      content: [{ type: 'text', text: formatAsMarkdown(data, entityType) }],
+  const text = renderData(data, format, entityType);
+  const fitted =
+    characterLimit === undefined || text.length <= characterLimit
+      ? text
+      : fitDataToLimit(data, format, entityType, characterLimit);
+
+  return {
+    content: [{ type: 'text', text: fitted }],
+  };
+}
+
+function renderData(data: unknown, format: ResponseFormat, entityType: string): string {
+  if (format === 'markdown') return formatAsMarkdown(data, entityType);
+  if (format === 'csv') return formatAsCsv(data, entityType);
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Render data that is too long by shortening its arrays (the data itself, or
+ * its top-level array properties, largest first) so the output stays valid
+ * JSON or CSV. Data without arrays to shorten is cut off and marked partial.
+ */
+function fitDataToLimit(
+  data: unknown,
+  format: ResponseFormat,
+  entityType: string,
+  characterLimit: number
+): string {
+  const isArray = Array.isArray(data);
+  let record: Record<string, unknown> | undefined;
+  if (isArray) {
+    record = { items: data };
+  } else if (typeof data === 'object' && data !== null) {
+    record = data as Record<string, unknown>;
+  }
+  const arrays = new Map<string, unknown[]>(
+    Object.entries(record ?? {}).filter(
+      (entry): entry is [string, unknown[]] => Array.isArray(entry[1]) && entry[1].length > 0
+    )
+  );
+  const kept = new Map([...arrays].map(([key, items]) => [key, items.length]));
+
+  const render = (): string => {
+    const trimmed = {
+      ...record,
+      ...Object.fromEntries(
+        [...arrays].map(([key, items]) => [key, items.slice(0, kept.get(key))])
+      ),
     };
+    const shown = [...arrays]
+      .filter(([key, items]) => (kept.get(key) ?? 0) < items.length)
+      .map(([key, items]) => `${kept.get(key)} of ${items.length} ${key}`);
+    const notice =
+      `Response truncated to fit the character limit, showing ${shown.join(', ')}. ` +
+      'Request a narrower result to see the rest.';
+
+    if (format === 'json') {
+      const payload = isArray
+        ? { total: arrays.get('items')?.length, count: kept.get('items'), items: trimmed.items }
+        : trimmed;
+      return JSON.stringify({ truncated: true, notice, ...payload }, null, 2);
+    }
+    const body = renderData(isArray ? trimmed.items : trimmed, format, entityType);
+    return format === 'csv' ? `${body}\n\n# ${notice}` : `${body}\n\n_${notice}_`;
+  };
+
+  const bySize = [...arrays.keys()].sort(
+    (a, b) => JSON.stringify(arrays.get(b)).length - JSON.stringify(arrays.get(a)).length
+  );
+  for (const key of bySize) {
+    // Find the most items of this array that fit, given the others
+    let low = 0;
+    let high = arrays.get(key)?.length ?? 0;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      kept.set(key, mid);
+      if (render().length <= characterLimit) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    kept.set(key, low);
+    if (render().length <= characterLimit) {
+      return render();
+    }
   }
+
+  const text = arrays.size > 0 ? render() : renderData(data, format, entityType);
+  return truncateText(
+    text,
+    characterLimit,
+    format === 'json'
+      ? `[Partial JSON, not parseable: cut at ${characterLimit} characters. ` +
+          'Request a narrower result to see the rest.]'
+      : undefined
+  );
+}
+
+/**
+ * Format one page of a list result
+ *
+ * When the page does not fit in `characterLimit`, trailing items are dropped
+ * and the response points at the offset to continue from.
+ */
+export function formatPaginatedResponse<T>(
+  result: PaginatedResult<T>,
+  format: ResponseFormat,
+  entityType: string,
+  characterLimit: number
+): ToolResponse {
+  const render = (count: number): string => {
+    const { offset, total } = result.pagination;
+    const pagination = buildPaginationInfo(total, offset, count);
+    const truncated = count < result.items.length;
+    return renderPage(result.items.slice(0, count), pagination, truncated, format, entityType);
+  };
+
+  return {
+    content: [{ type: 'text', text: fitToLimit(result.items.length, render, characterLimit) }],
+  };
+}
+
+/**
+ * Format one page of a cursor-paged result
+ *
+ * `cursorAfter` builds the cursor that resumes after a given item. When the
+ * page does not fit in `characterLimit`, trailing items are dropped and the
+ * cursor resumes after the last item shown.
+ */
+export function formatCursorResponse<T>(
+  items: T[],
+  hasMore: boolean,
+  cursorAfter: (item: T) => string,
+  format: ResponseFormat,
+  entityType: string,
+  characterLimit: number
+): ToolResponse {
+  const render = (count: number): string => {
+    const page = items.slice(0, count);
+    const truncated = count < items.length;
+    const last = page[page.length - 1];
+    const nextCursor = (hasMore || truncated) && last !== undefined ? cursorAfter(last) : null;
+
+    if (format === 'markdown') {
+      const lines = [formatArrayAsMarkdown(page, entityType)];
+      if (nextCursor) {
+        lines.push('', `_More results available. Use cursor \`${nextCursor}\` to continue._`);
+      }
+      return lines.join('\n');
+    }
+
+    if (format === 'csv') {
+      const csv = formatAsCsv(page, entityType);
+      return nextCursor
+        ? `${csv}\n\n# More results available. Use cursor ${nextCursor} to continue.`
+        : csv;
+    }
+
+    return JSON.stringify(
+      { count: page.length, hasMore: nextCursor !== null, nextCursor, items: page },
+      null,
+      2
+    );
+  };
+
   return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    content: [{ type: 'text', text: fitToLimit(items.length, render, characterLimit) }],
   };
 }
 
+/**
+ * Render as many items as fit within `characterLimit`, keeping at least one
+ */
+function fitToLimit(
+  total: number,
+  render: (count: number) => string,
+  characterLimit: number
+): string {
+  const text = render(total);
+  if (text.length <= characterLimit) {
+    return text;
+  }
+
+  // Find the largest number of items that still fits within the limit
+  let low = 0;
+  let high = total - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(mid).length <= characterLimit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return truncateText(render(Math.max(low, 1)), characterLimit);
+}
+
+/**
+ * Render a page of items with its pagination metadata
+ */
+function renderPage(
+  items: unknown[],
+  pagination: PaginationInfo,
+  truncated: boolean,
+  format: ResponseFormat,
+  entityType: string
+): string {
+  const notice = truncated
+    ? `Response truncated to fit the character limit, use offset ${pagination.nextOffset} to continue.`
+    : undefined;
+
+  if (format === 'markdown') {
+    const lines = [formatArrayAsMarkdown(items, entityType), ''];
+    const first = pagination.count > 0 ? pagination.offset + 1 : pagination.offset;
+    const last = pagination.offset + pagination.count;
+    lines.push(`_Showing ${first}-${last} of ${pagination.total}._`);
+    if (notice) {
+      lines.push(`_${notice}_`);
+    } else if (pagination.hasMore) {
+      lines.push(`_Use offset ${pagination.nextOffset} to see more._`);
+    }
+    return lines.join('\n');
+  }
+
+  // Pagination notes follow the rows after a blank line, so the rows stay valid CSV
+  if (format === 'csv') {
+    const csv = formatAsCsv(items, entityType);
+    if (notice) return `${csv}\n\n# ${notice}`;
+    if (pagination.hasMore) return `${csv}\n\n# Use offset ${pagination.nextOffset} to see more.`;
+    return csv;
+  }
+
+  return JSON.stringify(
+    { ...pagination, ...(notice && { truncated: true, notice }), items },
+    null,
+    2
+  );
+}
+
+/**
+ * Cut text down to `characterLimit` characters, including the truncation notice
+ */
+export function truncateText(text: string, characterLimit?: number, message?: string): string {
+  if (characterLimit === undefined || text.length <= characterLimit) {
+    return text;
+  }
+
+  const notice = `\n\n${
+    message ??
+    `[Response truncated at ${characterLimit} characters. Request a narrower result to see the rest.]`
+  }`;
+  return text.slice(0, Math.max(0, characterLimit - notice.length)) + notice;
+}
+
 /**
  * Format an error response
  */
@@ -76,7 +330,7 @@ export function formatError(error: unknown): ToolResponse {
 /**
  * Format data as Markdown
  */
-function formatAsMarkdown(data: unknown, entityType: string): string {
+export function formatAsMarkdown(data: unknown, entityType: string): string {
   if (Array.isArray(data)) {
     return formatArrayAsMarkdown(data, entityType);
   }
@@ -123,6 +377,9 @@ function formatArrayAsMarkdown(data: unknown[], entityType: string): string {
     case 'organizations':
       lines.push(formatOrganizationsTable(data as TrelloOrganization[]));
       break;
+    case 'actions':
+      lines.push(formatActionsTable(data as TrelloAction[]));
+      break;
     default:
       lines.push(formatGenericTable(data));
   }
@@ -254,6 +511,23 @@ function formatOrganizationsTable(orgs: TrelloOrganization[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format actions as Markdown table
+ */
+function formatActionsTable(actions: TrelloAction[]): string {
+  const lines: string[] = [];
+  lines.push('| Date | Type | Member | Card | ID |');
+  lines.push('|---|---|---|---|---|');
+
+  for (const action of actions) {
+    const member = action.memberCreator ? `@${action.memberCreator.username}` : action.idMemberCreator;
+    const card = action.data.card ? escapeMarkdown(action.data.card.name) : '-';
+    lines.push(`| ${action.date} | ${action.type} | ${member} | ${card} | \`${action.id}\` |`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format a generic array as Markdown table
  */
@@ -305,6 +579,132 @@ function formatObjectAsMarkdown(data: Record<string, unknown>, entityType: strin
   return lines.join('\n');
 }
 
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Names used to resolve the IDs on cards when flattening them. IDs without a
+ * match are written as they are.
+ */
+export interface CardCsvLookups {
+  lists?: TrelloList[];
+  members?: TrelloMember[];
+  /** Each field becomes a column, after the standard columns */
+  customFields?: TrelloCustomField[];
+}
+
+/**
+ * Format data as CSV, one row per item. Cards are written without lookups, so
+ * with list and member IDs and no custom field columns; trello_export_cards_csv
+ * fetches the lookups for names.
+ */
+export function formatAsCsv(data: unknown, entityType: string): string {
+  const items = Array.isArray(data) ? data : [data];
+  if (entityType === 'cards' || entityType === 'card') {
+    return formatCardsAsCsv(items as TrelloCard[]);
+  }
+  return toCsv(genericCsvRows(items));
+}
+
+/**
+ * Flatten cards into CSV rows with list and label names, member names,
+ * dates, checklist completion and one column per custom field
+ */
+export function formatCardsAsCsv(
+  cards: TrelloCard[],
+  lookups: CardCsvLookups = {},
+  delimiter = ','
+): string {
+  const listNames = new Map(lookups.lists?.map((list) => [list.id, list.name]));
+  const memberNames = new Map(lookups.members?.map((member) => [member.id, member.fullName]));
+  const customFields = lookups.customFields ?? [];
+
+  const header = [
+    'ID',
+    'Name',
+    'List',
+    'Labels',
+    'Members',
+    'Start',
+    'Due',
+    'Due Complete',
+    'Checklist Items Checked',
+    'Checklist Items',
+    'Description',
+    'Archived',
+    'Last Activity',
+    'URL',
+    ...customFields.map((field) => field.name),
+  ];
+
+  const rows = cards.map((card) => {
+    const checkItems = card.checklists?.flatMap((checklist) => checklist.checkItems);
+    const checked = checkItems
+      ? checkItems.filter((item) => item.state === 'complete').length
+      : (card.badges?.checkItemsChecked ?? 0);
+    const total = checkItems ? checkItems.length : (card.badges?.checkItems ?? 0);
+    return [
+      card.id,
+      card.name,
+      listNames.get(card.idList) ?? card.idList,
+      card.labels.map((label) => label.name || label.color || label.id).join('; '),
+      card.idMembers.map((id) => memberNames.get(id) ?? id).join('; '),
+      card.start ?? '',
+      card.due ?? '',
+      String(card.dueComplete),
+      String(checked),
+      String(total),
+      card.desc,
+      String(card.closed),
+      card.dateLastActivity,
+      card.shortUrl,
+      ...customFields.map((field) =>
+        customFieldText(
+          field,
+          card.customFieldItems?.find((item) => item.idCustomField === field.id)
+        )
+      ),
+    ];
+  });
+
+  return toCsv([header, ...rows], delimiter);
+}
+
+/**
+ * Display value of a custom field on a card
+ */
+function customFieldText(field: TrelloCustomField, item?: TrelloCustomFieldItem): string {
+  if (!item) return '';
+  if (item.idValue) {
+    const option = field.options?.find((candidate) => candidate.id === item.idValue);
+    return option?.value.text ?? item.idValue;
+  }
+  const value = item.value ?? {};
+  return value.text ?? value.number ?? value.date ?? value.checked ?? '';
+}
+
+/**
+ * Rows for arbitrary items, with a column per key seen on any item
+ */
+function genericCsvRows(items: unknown[]): string[][] {
+  const records = items.map((item) =>
+    typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : { value: item }
+  );
+  const keys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'object') return String(value);
+    if (Array.isArray(value) && value.every((entry) => typeof entry !== 'object')) {
+      return value.join('; ');
+    }
+    return JSON.stringify(value);
+  };
+
+  return [keys, ...records.map((record) => keys.map((key) => cell(record[key])))];
+}
+
 /**
  * Capitalize first letter
  */
@@ -325,6 +725,6 @@ function formatKey(key: string): string {
 /**
  * Escape markdown special characters
  */
-function escapeMarkdown(text: string): string {
+export function escapeMarkdown(text: string): string {
   return text.replace(/[|]/g, '\\|').replace(/\n/g, ' ');
 }
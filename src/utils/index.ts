@@ -1,2 +1,11 @@
+export * from './card-query.js';
+export * from './concurrency.js';
+export * from './crypto.js';
+export * from './csv.js';
+export * from './encoding.js';
 export * from './errors.js';
 export * from './formatters.js';
+export * from './markdown-outline.js';
+export * from './pagination.js';
+export * from './retry.js';
+export * from './search-query.js';
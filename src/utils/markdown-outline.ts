@@ -0,0 +1,129 @@
+/**
+ * Markdown Outline Parsing
+ *
+ * Splits a Markdown document into sections at one heading level. Text under
+ * a heading becomes the section's description and each bullet or numbered
+ * list becomes a checklist, named after the line or sub-heading before it.
+ */
+
+export interface OutlineChecklist {
+  name: string;
+  items: { text: string; checked: boolean }[];
+}
+
+export interface OutlineSection {
+  title: string;
+  description: string;
+  checklists: OutlineChecklist[];
+}
+
+/** Name used for a list that has no label line before it */
+export const DEFAULT_CHECKLIST_NAME = 'Checklist';
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[( |x|X)\]\s+)?(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Heading level that most likely marks one item per heading: the shallowest
+ * level used more than once, or the deepest level if none repeats
+ */
+export function detectSectionLevel(text: string): number | undefined {
+  const counts = new Map<number, number>();
+  let inFence = false;
+  for (const line of text.split(/\r?\n/)) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const match = inFence ? null : HEADING.exec(line);
+    if (match) counts.set(match[1].length, (counts.get(match[1].length) ?? 0) + 1);
+  }
+  const levels = [...counts.keys()].sort((a, b) => a - b);
+  return levels.find((level) => (counts.get(level) ?? 0) > 1) ?? levels[levels.length - 1];
+}
+
+/**
+ * Strip emphasis and a trailing colon from a list label, e.g. "**Tasks:**"
+ */
+function labelName(line: string): string {
+  return line
+    .trim()
+    .replace(/^[*_]+|[*_]+$/g, '')
+    .replace(/:$/, '')
+    .replace(/^[*_]+|[*_]+$/g, '')
+    .trim();
+}
+
+/**
+ * Parse the sections at `level` (default: see detectSectionLevel).
+ * Headings above that level end the current section and are otherwise
+ * ignored; deeper headings name the list that follows them.
+ */
+export function parseMarkdownOutline(text: string, level?: number): OutlineSection[] {
+  const sectionLevel = level ?? detectSectionLevel(text);
+  if (sectionLevel === undefined) return [];
+
+  const sections: OutlineSection[] = [];
+  let section: (OutlineSection & { lines: string[] }) | undefined;
+  let list: OutlineChecklist | undefined;
+  let pendingName: string | undefined;
+  let inFence = false;
+
+  const finish = () => {
+    if (section) {
+      const { lines, ...rest } = section;
+      sections.push({ ...rest, description: lines.join('\n').trim() });
+    }
+    section = undefined;
+    list = undefined;
+    pendingName = undefined;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const heading = inFence || FENCE.test(line) ? null : HEADING.exec(line);
+
+    if (heading && heading[1].length <= sectionLevel) {
+      finish();
+      if (heading[1].length === sectionLevel) {
+        section = { title: heading[2], description: '', checklists: [], lines: [] };
+      }
+      continue;
+    }
+    if (!section) continue;
+
+    if (heading) {
+      list = undefined;
+      pendingName = heading[2];
+      continue;
+    }
+
+    const item = inFence ? null : LIST_ITEM.exec(line);
+    if (item) {
+      if (!list) {
+        let name = pendingName;
+        let previous = section.lines.length - 1;
+        while (previous >= 0 && section.lines[previous].trim() === '') previous--;
+        if (!name && previous >= 0 && /:[*_]*\s*$/.test(section.lines[previous])) {
+          name = labelName(section.lines[previous]);
+          section.lines.splice(previous);
+        }
+        list = { name: name || DEFAULT_CHECKLIST_NAME, items: [] };
+        section.checklists.push(list);
+        pendingName = undefined;
+      }
+      list.items.push({ text: item[2].trim(), checked: item[1] === 'x' || item[1] === 'X' });
+      continue;
+    }
+
+    // Blank lines may separate items of the same list
+    if (line.trim() === '' && list) continue;
+
+    list = undefined;
+    if (pendingName) {
+      section.lines.push(`**${pendingName}**`);
+      pendingName = undefined;
+    }
+    section.lines.push(line);
+  }
+  finish();
+  return sections;
+}
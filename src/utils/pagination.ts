@@ -0,0 +1,80 @@
+/**
+ * Pagination Utilities
+ *
+ * Offset-based paging over result sets that Trello returns in full, and
+ * opaque cursors for endpoints that page by ID or date.
+ */
+
+import { ValidationError } from './errors.js';
+
+export interface PaginationInfo {
+  /** Total number of items available */
+  total: number;
+
+  /** Number of items in this page */
+  count: number;
+
+  /** Offset of the first item in this page */
+  offset: number;
+
+  /** Whether more items are available after this page */
+  hasMore: boolean;
+
+  /** Offset to request for the next page, or null when there is none */
+  nextOffset: number | null;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Slice a page out of a full result set
+ */
+export function paginate<T>(items: T[], offset: number, limit: number): PaginatedResult<T> {
+  const page = items.slice(offset, offset + limit);
+  return {
+    items: page,
+    pagination: buildPaginationInfo(items.length, offset, page.length),
+  };
+}
+
+/**
+ * Build pagination metadata for a page of `count` items starting at `offset`
+ */
+export function buildPaginationInfo(total: number, offset: number, count: number): PaginationInfo {
+  const hasMore = offset + count < total;
+  return {
+    total,
+    count,
+    offset,
+    hasMore,
+    nextOffset: hasMore ? offset + count : null,
+  };
+}
+
+// =============================================================================
+// Cursors
+// =============================================================================
+
+/**
+ * Encode cursor state as an opaque, URL-safe string
+ */
+export function encodeCursor(state: object): string {
+  return btoa(JSON.stringify(state)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeCursor<T>(cursor: string): T {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(base64)) as T;
+  } catch {
+    throw new ValidationError('Invalid pagination cursor', {
+      cursor: ['Pass the nextCursor value returned by a previous call unchanged'],
+    });
+  }
+}
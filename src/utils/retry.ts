@@ -0,0 +1,148 @@
+/**
+ * Retry Utilities
+ *
+ * Retry pipeline with jittered exponential backoff for Trello API calls.
+ * Rate limit errors honor the server-provided Retry-After delay.
+ */
+
+import { ApiError, isRetryableError, RateLimitError } from './errors.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+
+  /** Upper bound for the total time spent waiting between attempts */
+  maxTotalDelayMs: number;
+}
+
+export interface RetryPolicy {
+  /** Whether a failure may be retried (default: isRetryableError) */
+  canRetry?: (error: unknown) => boolean;
+
+  /** Wait budget shared with other operations (default: one per call) */
+  budget?: RetryBudget;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxTotalDelayMs: 30000,
+};
+
+// =============================================================================
+// Retry Budget
+// =============================================================================
+
+/**
+ * Total time several operations may spend waiting between attempts. A client
+ * is created per MCP request, so sharing one budget across its requests caps
+ * the retry wait of a whole tool call.
+ */
+export class RetryBudget {
+  private spentMs = 0;
+
+  constructor(private maxTotalDelayMs: number) {}
+
+  /** Reserve a delay; false when it would exceed the budget */
+  consume(delayMs: number): boolean {
+    if (this.spentMs + delayMs > this.maxTotalDelayMs) {
+      return false;
+    }
+    this.spentMs += delayMs;
+    return true;
+  }
+}
+
+// =============================================================================
+// Retry Pipeline
+// =============================================================================
+
+/**
+ * Whether a failed HTTP request may be sent again. A rate limited request
+ * never ran on the server. After a network error or 5xx response a POST may
+ * have created something already, so only other methods are retried.
+ */
+export function isSafeToRetry(error: unknown, method = 'GET'): boolean {
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+  return method.toUpperCase() !== 'POST' && isRetryableError(error);
+}
+
+/**
+ * Run an operation, retrying retryable failures until the attempt or wait
+ * budget is exhausted. The final error is annotated with the attempt count.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  policy: RetryPolicy = {}
+): Promise<T> {
+  const budget = policy.budget ?? new RetryBudget(options.maxTotalDelayMs);
+  const isRetryable = policy.canRetry ?? isRetryableError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const delayMs = getRetryDelay(error, attempt, options);
+      const canRetry =
+        attempt < options.maxAttempts && isRetryable(error) && budget.consume(delayMs);
+
+      if (!canRetry) {
+        if (error instanceof ApiError) {
+          error.attempts = attempt;
+        }
+        throw error;
+      }
+
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Rate limit errors wait for the Retry-After period; everything else uses
+ * full-jitter exponential backoff.
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions): number {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterSeconds * 1000;
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,70 @@
+/**
+ * Search Query Builder
+ *
+ * Compiles structured filters into Trello's search operator syntax.
+ * Reference: https://support.atlassian.com/trello/docs/searching-for-cards-all-boards/
+ */
+
+import { ValidationError } from './errors.js';
+
+/** Relative windows accepted by due:, created: and edited: */
+export type SearchWindow = 'day' | 'week' | 'month';
+
+export interface SearchFilters {
+  /** Label names or colors; cards must have all of them */
+  labels?: string[];
+  /** Member usernames (with or without a leading @); cards must have all of them */
+  members?: string[];
+  /** List name */
+  list?: string;
+  /** Board name */
+  board?: string;
+  /** Due window, due state, or a number of days from now */
+  due?: SearchWindow | 'overdue' | 'complete' | 'incomplete' | number;
+  /** Created in the last day/week/month or number of days */
+  created?: SearchWindow | number;
+  /** Edited in the last day/week/month or number of days */
+  edited?: SearchWindow | number;
+  /** Properties the card must have */
+  has?: ('attachments' | 'description' | 'cover' | 'members' | 'stickers')[];
+  /** States the card or board must be in */
+  is?: ('open' | 'archived' | 'starred')[];
+}
+
+/**
+ * Quote an operator value when it contains whitespace or quotes.
+ * Trello has no escape for quotes inside a quoted value, so they are dropped.
+ */
+export function quoteSearchValue(value: string): string {
+  const cleaned = value.replace(/"/g, '').trim();
+  if (!cleaned) {
+    throw new ValidationError('Search filter values cannot be empty');
+  }
+  return /[\s:]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Build a Trello search query from free text and structured filters
+ */
+export function buildSearchQuery(text: string | undefined, filters: SearchFilters): string {
+  const terms: string[] = [];
+  const add = (operator: string, value: string | number) => {
+    terms.push(`${operator}:${typeof value === 'number' ? value : quoteSearchValue(value)}`);
+  };
+
+  for (const label of filters.labels ?? []) add('label', label);
+  for (const member of filters.members ?? []) add('member', member.replace(/^@/, ''));
+  if (filters.list) add('list', filters.list);
+  if (filters.board) add('board', filters.board);
+  if (filters.due !== undefined) add('due', filters.due);
+  if (filters.created !== undefined) add('created', filters.created);
+  if (filters.edited !== undefined) add('edited', filters.edited);
+  for (const property of filters.has ?? []) add('has', property);
+  for (const state of filters.is ?? []) add('is', state);
+
+  const query = [text?.trim(), ...terms].filter(Boolean).join(' ');
+  if (!query) {
+    throw new ValidationError('Provide a query or at least one search filter');
+  }
+  return query;
+}
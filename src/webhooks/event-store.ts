@@ -0,0 +1,195 @@
+/**
+ * Webhook Event Store
+ *
+ * Persists normalized webhook deliveries so tools can ask what changed since
+ * a point in time. Events are stored per tenant, once per action, with the
+ * IDs of the watched models whose webhooks delivered it: in the WEBHOOK_EVENTS
+ * KV namespace when it is bound, otherwise in memory scoped to the Worker
+ * isolate (local development and tests).
+ */
+
+import type { TrelloWebhookEvent } from '../types/entities.js';
+import type { Env } from '../types/env.js';
+
+/** How long events are kept */
+export const EVENT_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+/** Maximum events kept per tenant by the in-memory store */
+export const MEMORY_EVENT_LIMIT = 1000;
+
+/** Position of an event in the (date, id) order of a tenant's events */
+export interface EventPosition {
+  date: string;
+  id: string;
+}
+
+export interface EventQuery {
+  /** Only return events that happened after this ISO 8601 timestamp */
+  since?: string;
+  /** Only return events after this one; events sharing its date are kept */
+  after?: EventPosition;
+  /** Action types to include */
+  types?: string[];
+  boardId?: string;
+  cardId?: string;
+  /** Only return events delivered by a webhook on this model */
+  modelId?: string;
+  /** Maximum number of events to return */
+  limit: number;
+}
+
+export interface EventQueryResult {
+  /** Matching events, oldest first */
+  events: TrelloWebhookEvent[];
+  hasMore: boolean;
+}
+
+/** Fields kept alongside each key so queries can filter without reading values */
+interface EventMetadata {
+  type: string;
+  date: string;
+  boardId: string | null;
+  cardId: string | null;
+  /** Watched models of the webhooks that delivered the event */
+  modelIds: string[];
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface EventStore {
+  put(event: TrelloWebhookEvent): Promise<void>;
+  query(tenant: string, query: EventQuery): Promise<EventQueryResult>;
+}
+
+/**
+ * Check an event against the query filters
+ */
+function matches(event: EventMetadata & { id: string }, query: EventQuery): boolean {
+  if (query.since && event.date <= query.since) return false;
+  if (query.after && byPosition(event, query.after) <= 0) return false;
+  if (query.types?.length && !query.types.includes(event.type)) return false;
+  if (query.boardId && event.boardId !== query.boardId) return false;
+  if (query.cardId && event.cardId !== query.cardId) return false;
+  if (query.modelId && !event.modelIds.includes(query.modelId)) return false;
+  return true;
+}
+
+/**
+ * Metadata of an event, adding its watched model to those of earlier
+ * deliveries of the same action (e.g. by a board and a card webhook)
+ */
+function eventMetadata(event: TrelloWebhookEvent, previous?: EventMetadata | null): EventMetadata {
+  const modelIds = previous?.modelIds ?? [];
+  return {
+    type: event.type,
+    date: event.date,
+    boardId: event.boardId,
+    cardId: event.cardId,
+    modelIds: modelIds.includes(event.idModel) ? modelIds : [...modelIds, event.idModel],
+  };
+}
+
+/** Order events by date, then by ID for events in the same millisecond */
+function byPosition(a: EventPosition, b: EventPosition): number {
+  return a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+}
+
+/**
+ * In-memory event store. Keeps the most recent events of each tenant.
+ */
+export class MemoryEventStore implements EventStore {
+  private events = new Map<string, { event: TrelloWebhookEvent; metadata: EventMetadata }[]>();
+
+  async put(event: TrelloWebhookEvent): Promise<void> {
+    const stored = this.events.get(event.tenant) ?? [];
+    const previous = stored.find((entry) => entry.event.id === event.id);
+    const events = stored.filter((entry) => entry !== previous);
+    events.push({ event, metadata: eventMetadata(event, previous?.metadata) });
+    events.sort((a, b) => byPosition(a.event, b.event));
+    this.events.set(event.tenant, events.slice(-MEMORY_EVENT_LIMIT));
+  }
+
+  async query(tenant: string, query: EventQuery): Promise<EventQueryResult> {
+    const events = (this.events.get(tenant) ?? [])
+      .filter((entry) => matches({ ...entry.metadata, id: entry.event.id }, query))
+      .map((entry) => entry.event);
+    return { events: events.slice(0, query.limit), hasMore: events.length > query.limit };
+  }
+}
+
+/** UTC day (YYYY-MM-DD) of a timestamp */
+function day(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Event store backed by a KV namespace.
+ *
+ * Keys have the form events:<tenant>:<date>:<actionId> and carry
+ * EventMetadata; a later delivery of the same action adds its model ID. KV
+ * lists keys in order, so a query lists one day prefix at a time from the day
+ * it starts at, filters keys on metadata, stops once it has a page and only
+ * reads the values it returns.
+ */
+export class KvEventStore implements EventStore {
+  constructor(private kv: KVNamespace) {}
+
+  async put(event: TrelloWebhookEvent): Promise<void> {
+    const key = `events:${event.tenant}:${event.date}:${event.id}`;
+    const previous = await this.kv.getWithMetadata<EventMetadata>(key);
+    await this.kv.put(key, JSON.stringify(event), {
+      expirationTtl: EVENT_RETENTION_SECONDS,
+      metadata: eventMetadata(event, previous.metadata),
+    });
+  }
+
+  async query(tenant: string, query: EventQuery): Promise<EventQueryResult> {
+    const now = Date.now();
+    const start = [query.since, query.after?.date]
+      .filter((date): date is string => Boolean(date))
+      .reduce(
+        (latest, date) => Math.max(latest, Date.parse(date)),
+        now - EVENT_RETENTION_SECONDS * 1000
+      );
+
+    // One more than the limit tells whether there are more events
+    const keys: string[] = [];
+    // Include tomorrow for action dates slightly ahead of this clock
+    for (let time = start; day(time) <= day(now + 86_400_000); time += 86_400_000) {
+      let cursor: string | undefined;
+      do {
+        const page = await this.kv.list<EventMetadata>({
+          prefix: `events:${tenant}:${day(time)}`,
+          cursor,
+        });
+        for (const key of page.keys) {
+          const id = key.name.slice(key.name.lastIndexOf(':') + 1);
+          if (key.metadata && matches({ ...key.metadata, id }, query)) {
+            keys.push(key.name);
+          }
+        }
+        cursor = page.list_complete || keys.length > query.limit ? undefined : page.cursor;
+      } while (cursor);
+      if (keys.length > query.limit) break;
+    }
+
+    const values = await Promise.all(
+      keys.slice(0, query.limit).map((key) => this.kv.get<TrelloWebhookEvent>(key, 'json'))
+    );
+    return {
+      events: values.filter((event): event is TrelloWebhookEvent => event !== null),
+      hasMore: keys.length > query.limit,
+    };
+  }
+}
+
+const sharedMemoryStore = new MemoryEventStore();
+
+/**
+ * Pick the event store for the current environment
+ */
+export function createEventStore(env: Env): EventStore {
+  return env.WEBHOOK_EVENTS ? new KvEventStore(env.WEBHOOK_EVENTS) : sharedMemoryStore;
+}
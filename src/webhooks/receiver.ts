@@ -0,0 +1,121 @@
+/**
+ * Trello Webhook Receiver
+ *
+ * Handles deliveries to /webhooks/trello/:tenant. Trello sends a HEAD request
+ * when a webhook is created and then POSTs each action, signed with the app
+ * secret in the X-Trello-Webhook header:
+ *
+ *   base64(HMAC-SHA1(appSecret, body + callbackURL))
+ *
+ * Verified events are persisted to the tenant's event store.
+ *
+ * See https://developer.atlassian.com/cloud/trello/guides/rest-api/webhooks/
+ */
+
+import type { TrelloWebhookEvent, TrelloWebhookPayload } from '../types/entities.js';
+import { type Env, getWebhookSecret } from '../types/env.js';
+import { hmacBase64, timingSafeEqual } from '../utils/crypto.js';
+import { ValidationError } from '../utils/errors.js';
+import { createEventStore } from './event-store.js';
+
+/** Route for webhook deliveries; the tenant segment identifies the receiver */
+export const WEBHOOK_ROUTE = /^\/webhooks\/trello\/([A-Za-z0-9_-]{1,128})\/?$/;
+
+export const SIGNATURE_HEADER = 'X-Trello-Webhook';
+
+/**
+ * Verify the signature Trello sends with each webhook delivery
+ */
+export async function verifyTrelloSignature(
+  body: string,
+  callbackUrl: string,
+  secret: string,
+  signature: string
+): Promise<boolean> {
+  const expected = await hmacBase64('SHA-1', secret, body + callbackUrl);
+  return timingSafeEqual(expected, signature);
+}
+
+/**
+ * Normalize a webhook delivery into an event
+ */
+export function normalizeWebhookPayload(payload: unknown, tenant: string): TrelloWebhookEvent {
+  const { action, model, webhook } = (payload ?? {}) as Partial<TrelloWebhookPayload>;
+  if (!action?.id || !action.type || !model?.id) {
+    throw new ValidationError('Webhook payload must include an action and a model');
+  }
+  // Stored events are keyed and sorted by these, so they must be usable strings
+  if (
+    typeof action.id !== 'string' ||
+    typeof action.date !== 'string' ||
+    Number.isNaN(Date.parse(action.date))
+  ) {
+    throw new ValidationError('Webhook action must have a string id and an ISO 8601 date');
+  }
+
+  const data = action.data ?? {};
+  return {
+    id: action.id,
+    tenant,
+    idModel: webhook?.idModel ?? model.id,
+    idWebhook: webhook?.id ?? null,
+    type: action.type,
+    date: action.date,
+    receivedAt: new Date().toISOString(),
+    boardId: data.board?.id ?? null,
+    listId: data.list?.id ?? data.listAfter?.id ?? null,
+    cardId: data.card?.id ?? null,
+    idMemberCreator: action.idMemberCreator,
+    action,
+  };
+}
+
+/**
+ * Handle a request to the webhook route
+ */
+export async function handleTrelloWebhook(
+  request: Request,
+  env: Env,
+  tenant: string
+): Promise<Response> {
+  // Trello checks the callback URL with a HEAD request before creating a webhook
+  if (request.method === 'HEAD' || request.method === 'GET') {
+    return new Response(null, { status: 200 });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  const secret = getWebhookSecret(env, tenant);
+  if (!secret) {
+    return jsonResponse(
+      { error: 'Not Configured', message: 'No webhook secret is configured for this tenant' },
+      503
+    );
+  }
+
+  const body = await request.text();
+  const signature = request.headers.get(SIGNATURE_HEADER) || '';
+  if (!signature || !(await verifyTrelloSignature(body, request.url, secret, signature))) {
+    return jsonResponse({ error: 'Unauthorized', message: 'Invalid webhook signature' }, 401);
+  }
+
+  let event: TrelloWebhookEvent;
+  try {
+    event = normalizeWebhookPayload(JSON.parse(body), tenant);
+  } catch (error) {
+    const message = error instanceof ValidationError ? error.message : 'Invalid JSON body';
+    return jsonResponse({ error: 'Bad Request', message }, 400);
+  }
+
+  await createEventStore(env).put(event);
+
+  return jsonResponse({ received: true, id: event.id });
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}